@@ -1,65 +1,95 @@
-import { useEffect, useCallback } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
   import { useAppStore } from './stores/appStore';
   import { ChatInterface } from './components/ChatInterface';
   import { ConfirmationDialog } from './components/ConfirmationDialog';
+import { ReminderToasts } from './components/ReminderToasts';
 import { TaskPanel } from './components/TaskPanel';
+import { LoginPrompt } from './components/LoginPrompt';
 import { useWebSocket } from './hooks/useWebSocket';
-import type { WSMessage, Message } from './types/index';
+import type { ServerMessage, Message, Reminder } from './types/index';
+import { HISTORY_PAGE_SIZE } from './types/index';
 import { useTasks } from './hooks/useTasks';
+import { useAuth } from './hooks/useAuth';
+
+// Tool output fields that get a friendlier rendering than the generic success line
+interface ToolOutputFields {
+    message?: string;
+    city?: string;
+    country?: string;
+    temperature?: number;
+    feelsLike?: number;
+    description?: string;
+    humidity?: number;
+    windSpeed?: number;
+}
+
+// Mirror a reminder as a system notification, so it is seen while the tab is in the background
+function showReminderNotification(reminder: Reminder) {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+    const notification = new Notification(reminder.title, {
+        body: reminder.message,
+        tag: reminder.id, // Several open tabs show a single notification
+    });
+    notification.onclick = () => window.focus();
+}
 
   function App() {
-    const setUserId = useAppStore((state) => state.setUserId);
     const userId = useAppStore((state) => state.userId);
+    const authToken = useAppStore((state) => state.authToken);
     const addMessage = useAppStore((state) => state.addMessage);
+    const appendMessageContent = useAppStore((state) => state.appendMessageContent);
+    const updateMessage = useAppStore((state) => state.updateMessage);
+    const removeMessage = useAppStore((state) => state.removeMessage);
+    const removeMessages = useAppStore((state) => state.removeMessages);
+    const applyMessageEdit = useAppStore((state) => state.applyMessageEdit);
+    const setIsGenerating = useAppStore((state) => state.setIsGenerating);
     const setIsTyping = useAppStore((state) => state.setIsTyping);
-    const setPendingConfirmation = useAppStore((state) => state.setPendingConfirmation);
+    const enqueueConfirmation = useAppStore((state) => state.enqueueConfirmation);
+    const dequeueConfirmation = useAppStore((state) => state.dequeueConfirmation);
+    const addReminder = useAppStore((state) => state.addReminder);
+    const historyLoaded = useAppStore((state) => state.history.loaded);
+    const setHistoryLoading = useAppStore((state) => state.setHistoryLoading);
+    const prependHistory = useAppStore((state) => state.prependHistory);
+    const setThreads = useAppStore((state) => state.setThreads);
+    const upsertThread = useAppStore((state) => state.upsertThread);
+    const setActiveThreadId = useAppStore((state) => state.setActiveThreadId);
+    const enterThread = useAppStore((state) => state.enterThread);
+    const addTask = useAppStore((state) => state.addTask);
+    const updateTask = useAppStore((state) => state.updateTask);
+    const removeTask = useAppStore((state) => state.removeTask);
+    const setTasks = useAppStore((state) => state.setTasks);
 
     const { fetchTasks } = useTasks(userId);
 
-    useEffect(() => {
-      async function initializeUser() {
-        try {
-          // Check if userId exists in localStorage
-          const storedUserId = localStorage.getItem('userId');
-
-          if (storedUserId) {
-            console.log('[App] Using stored userId:', storedUserId);
-            setUserId(storedUserId);
-            return;
-          }
-
-          // Generate new userId if none exists
-          const response = await fetch('/api/users/generate-id');
-          const data = await response.json();
+    const { expiredUserId, login, register } = useAuth();
 
-          console.log('[App] Generated new userId:', data.userId);
-
-          // Store in localStorage for persistence
-          localStorage.setItem('userId', data.userId);
-          setUserId(data.userId);
-        } catch (error) {
-          console.error('[App] Failed to generate userId:', error);
-
-          // Fallback: generate client-side UUID
-          const fallbackUserId = crypto.randomUUID();
-          console.log('[App] Using fallback userId:', fallbackUserId);
-          localStorage.setItem('userId', fallbackUserId);
-          setUserId(fallbackUserId);
-        }
-      }
-
-      initializeUser();
-    }, [setUserId]);
+    // Id the server gave this connection; broadcasts carrying it as `origin` echo our own actions
+    const sessionIdRef = useRef<string | null>(null);
 
     // Centralized WebSocket message handler
-    const handleWebSocketMessage = useCallback((wsMessage: WSMessage) => {
+    const handleWebSocketMessage = useCallback((wsMessage: ServerMessage) => {
       console.log('[App] Received message:', wsMessage.type);
 
       switch (wsMessage.type) {
           case 'connected':
               console.log('[App] Connected as user:', wsMessage.payload.userId);
+              sessionIdRef.current = wsMessage.payload.sessionId;
           break;
 
+          case 'user_message':
+              // Sent from another device; this one added its own message when it was sent
+              if (wsMessage.origin !== sessionIdRef.current) {
+                  addMessage(wsMessage.payload.message);
+                  setIsTyping(true);
+              }
+              break;
+
+          case 'message_saved':
+              // Our own message, stored under a server id
+              updateMessage(wsMessage.payload.clientId, { id: wsMessage.payload.messageId });
+              break;
+
           case 'chat_response':
               const assistantMessage: Message = {
                   id: wsMessage.payload.messageId || crypto.randomUUID(),
@@ -71,9 +101,92 @@ import { useTasks } from './hooks/useTasks';
               setIsTyping(false);
               break;
 
+          case 'chat_delta':
+              appendMessageContent(wsMessage.payload.messageId, wsMessage.payload.delta);
+              setIsTyping(false);
+              break;
+
+          case 'chat_done':
+              // Final content is authoritative; drop the bubble if nothing but tool calls was said
+              if (wsMessage.payload.content) {
+                  if (useAppStore.getState().messages.some((m) => m.id === wsMessage.payload.messageId)) {
+                      updateMessage(wsMessage.payload.messageId, { content: wsMessage.payload.content });
+                  } else {
+                      addMessage({
+                          id: wsMessage.payload.messageId,
+                          role: 'assistant',
+                          content: wsMessage.payload.content,
+                          timestamp: wsMessage.timestamp,
+                      });
+                  }
+              } else {
+                  removeMessage(wsMessage.payload.messageId);
+              }
+              setIsTyping(false);
+              break;
+
+          case 'generation_status': {
+              const { active } = wsMessage.payload;
+              setIsGenerating(active);
+              if (!active) {
+                  setIsTyping(false);
+              }
+              break;
+          }
+
+          case 'generation_cancelled':
+              console.log('[App] Generation stopped');
+              setIsTyping(false);
+              break;
+
+          case 'messages_removed':
+              removeMessages(wsMessage.payload.messageIds);
+              break;
+
+          case 'message_updated': {
+              const { messageId, content } = wsMessage.payload;
+              applyMessageEdit(messageId, content);
+              break;
+          }
+
+          case 'history': {
+              const history = wsMessage.payload;
+              console.log('[App] History page received:', history.messages.length);
+              prependHistory(history.messages, history.hasMore, history.nextCursor);
+              break;
+          }
+
+          case 'threads_list': {
+              const { threads, activeThreadId } = wsMessage.payload;
+              setThreads(threads, activeThreadId);
+              break;
+          }
+
+          case 'thread_created': {
+              // Created for the message just sent, so keep what is on screen
+              const { thread } = wsMessage.payload;
+              if (thread) {
+                  upsertThread(thread);
+                  setActiveThreadId(thread.id);
+              }
+              break;
+          }
+
+          case 'thread_switched':
+              enterThread(wsMessage.payload.thread);
+              break;
+
+          case 'thread_updated': {
+              const { thread } = wsMessage.payload;
+              if (thread) {
+                  upsertThread(thread);
+              }
+              break;
+          }
+
           case 'confirmation_request':
               console.log('[App] Confirmation requested:', wsMessage.payload);
-              setPendingConfirmation({
+              enqueueConfirmation({
                   requestId: wsMessage.payload.requestId,
                   code: wsMessage.payload.code,
                   toolCalls: wsMessage.payload.toolCalls,
@@ -82,21 +195,27 @@ import { useTasks } from './hooks/useTasks';
               setIsTyping(false);
               break;
 
-          case 'tool_execution_result':
+          case 'confirmation_resolved':
+              // Answered on another device, or timed out on the server
+              dequeueConfirmation(wsMessage.payload.requestId);
+              break;
+
+          case 'tool_execution_result': {
               // Add tool result as system message with actual data
               console.log('[App] Tool execution result:', JSON.stringify(wsMessage.payload, null, 2));
+              const output = wsMessage.payload.output as ToolOutputFields | undefined;
               let resultContent = '';
 
               if (wsMessage.payload.success) {
                   // Show actual tool output data for different tools
-                  if (wsMessage.payload.toolName === 'getWeather' && wsMessage.payload.output?.city) {
-                      const weather = wsMessage.payload.output;
+                  if (wsMessage.payload.toolName === 'getWeather' && output?.city) {
+                      const weather = output;
                       resultContent = `🌤️ Weather in ${weather.city}, ${weather.country}:\n` +
                           `Temperature: ${weather.temperature}°C (feels like ${weather.feelsLike}°C)\n` +
                           `Conditions: ${weather.description}\n` +
                           `Humidity: ${weather.humidity}% | Wind: ${weather.windSpeed} m/s`;
-                  } else if (wsMessage.payload.output?.message) {
-                      resultContent = `✅ ${wsMessage.payload.output.message}`;
+                  } else if (output?.message) {
+                      resultContent = `✅ ${output.message}`;
                   } else {
                       resultContent = `✅ Tool "${wsMessage.payload.toolName}" executed successfully`;
                   }
@@ -112,12 +231,72 @@ import { useTasks } from './hooks/useTasks';
               };
               addMessage(resultMessage);
 
+              // The assistant is re-invoked with the result, so expect a follow-up
+              setIsTyping(true);
+
               if (wsMessage.payload.success &&
                 ['createTask', 'updateTask', 'completeTask', 'deleteTask'].includes(wsMessage.payload.toolName)) {
                   console.log('[App] Refreshing tasks after tool execution');
                   fetchTasks();
                 }
               break;
+          }
+
+          case 'task_created':
+          case 'task_updated':
+          case 'task_completed': {
+              const { task } = wsMessage.payload;
+              if (useAppStore.getState().tasks.some((t) => t.id === task.id)) {
+                  updateTask(task.id, task);
+              } else {
+                  addTask(task);
+              }
+              break;
+          }
+
+          case 'task_deleted':
+              removeTask(wsMessage.payload.taskId);
+              break;
+
+          case 'tasks_list':
+              setTasks(wsMessage.payload.tasks);
+              break;
+
+          case 'reminder': {
+              const { reminder } = wsMessage.payload;
+              console.log('[App] Reminder received:', reminder.title);
+              if (!useAppStore.getState().reminders.some((r) => r.id === reminder.id)) {
+                  addReminder(reminder);
+                  showReminderNotification(reminder);
+              }
+              break;
+          }
+
+          case 'briefing': {
+              const { message, date } = wsMessage.payload;
+              console.log('[App] Daily briefing received for', date);
+              // Already stored server-side; skip it if history loaded it first
+              if (!useAppStore.getState().messages.some((m) => m.id === message.id)) {
+                  addMessage(message);
+              }
+              break;
+          }
+
+          case 'scheduled_action_result': {
+              const { actionId, toolName, success, error, message } = wsMessage.payload;
+              console.log('[App] Scheduled action ran:', actionId, toolName, success);
+              addMessage({
+                  ...message,
+                  content: success
+                      ? `⏰ Scheduled "${toolName}" ran successfully`
+                      : `⏰ Scheduled "${toolName}" failed: ${error}`,
+              });
+
+              if (success && ['createTask', 'updateTask', 'completeTask', 'deleteTask'].includes(toolName)) {
+                  fetchTasks();
+              }
+              break;
+          }
 
           case 'error':
               const errorMessage: Message = {
@@ -128,22 +307,41 @@ import { useTasks } from './hooks/useTasks';
               };
               addMessage(errorMessage);
               setIsTyping(false);
-              break;
-
-          case 'status':
-              console.log('[App] Status:', wsMessage.payload.message);
+              // Let a failed history page be retried
+              setHistoryLoading(false);
               break;
 
           default:
               console.warn('[App] Unknown message type:', wsMessage.type);
     }
-  }, [addMessage, setIsTyping, setPendingConfirmation, fetchTasks]);
+  }, [addMessage, appendMessageContent, updateMessage, removeMessage, removeMessages, applyMessageEdit, setIsTyping, setIsGenerating, enqueueConfirmation, dequeueConfirmation, prependHistory, setHistoryLoading, setThreads, upsertThread, setActiveThreadId, enterThread, addTask, updateTask, removeTask, setTasks, addReminder, fetchTasks]);
 
   // Single WebSocket connection for entire app
-  const { status, sendMessage, isConnected } = useWebSocket(userId, {
+  const { status, sendMessage, isConnected } = useWebSocket(authToken, {
       onMessage: handleWebSocketMessage,
   });
 
+  // Refresh the thread list on every (re)connect
+  useEffect(() => {
+      if (isConnected) {
+          sendMessage('thread_list', {});
+      }
+  }, [isConnected, sendMessage]);
+
+  // A reply cut off by a dropped connection will never report that it finished
+  useEffect(() => {
+      if (!isConnected) {
+          setIsGenerating(false);
+      }
+  }, [isConnected, setIsGenerating]);
+
+  // Load the latest page of the active thread once connected or after switching threads
+  useEffect(() => {
+      if (isConnected && !historyLoaded && sendMessage('history', { limit: HISTORY_PAGE_SIZE })) {
+          setHistoryLoading(true);
+      }
+  }, [isConnected, historyLoaded, sendMessage, setHistoryLoading]);
+
     return (
       <>
         <TaskPanel sendMessage={sendMessage} isConnected={isConnected} />
@@ -153,6 +351,10 @@ import { useTasks } from './hooks/useTasks';
           isConnected={isConnected}
         />
         <ConfirmationDialog sendMessage={sendMessage} />
+        <ReminderToasts />
+        {expiredUserId && (
+          <LoginPrompt userId={expiredUserId} onLogin={login} onStartOver={register} />
+        )}
       </>
     );
   }
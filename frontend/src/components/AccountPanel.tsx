@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, KeyRound, UserCircle } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import { useAccount } from '../hooks/useAccount';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export function AccountPanel() {
+const userId = useAppStore((state) => state.userId);
+const { hasPassword, setPassword } = useAccount(userId);
+
+const [isOpen, setIsOpen] = useState(false);
+const [password, setPasswordInput] = useState('');
+const [currentPassword, setCurrentPassword] = useState('');
+const [status, setStatus] = useState<{ error: boolean; text: string } | null>(null);
+const [isSaving, setIsSaving] = useState(false);
+
+const handleSubmit = async () => {
+    setIsSaving(true);
+    const error = await setPassword(password, hasPassword ? currentPassword : undefined);
+    setIsSaving(false);
+
+    if (error) {
+    setStatus({ error: true, text: error });
+    return;
+    }
+
+    setPasswordInput('');
+    setCurrentPassword('');
+    setStatus({ error: false, text: 'Password saved. Log in with your user id and this password once your session expires.' });
+};
+
+return (
+    <div className="border-b border-gray-200 px-4 py-3">
+    <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between"
+    >
+        <div className="flex items-center gap-2">
+        <UserCircle className="h-4 w-4 text-gray-700" />
+        <h2 className="text-sm font-semibold text-gray-900">Account</h2>
+        {hasPassword === false && (
+            <span className="bg-amber-100 text-amber-800 text-xs font-medium px-2 py-0.5 rounded-full">
+            No password
+            </span>
+        )}
+        </div>
+        {isOpen ? (
+        <ChevronDown className="h-4 w-4 text-gray-500" />
+        ) : (
+        <ChevronRight className="h-4 w-4 text-gray-500" />
+        )}
+    </button>
+
+    {isOpen && (
+        <form
+        onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+        }}
+        className="mt-3 space-y-2"
+        >
+        <div>
+            <p className="text-xs font-medium text-gray-500">User id</p>
+            <p className="text-xs font-mono text-gray-800 break-all select-all">{userId}</p>
+        </div>
+
+        {hasPassword === false && (
+            <p className="text-xs text-amber-700">
+            Set a password to keep this account: without one, your tasks and conversations can't be
+            reached once your session expires.
+            </p>
+        )}
+
+        {hasPassword && (
+            <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+            autoComplete="current-password"
+            className="w-full text-sm rounded border border-gray-300 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+        )}
+        <input
+            type="password"
+            value={password}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder={hasPassword ? 'New password' : 'Password'}
+            autoComplete="new-password"
+            className="w-full text-sm rounded border border-gray-300 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {status && (
+            <p className={`text-xs ${status.error ? 'text-red-600' : 'text-green-700'}`}>{status.text}</p>
+        )}
+
+        <button
+            type="submit"
+            disabled={isSaving || password.length < MIN_PASSWORD_LENGTH || (hasPassword === true && !currentPassword)}
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+            <KeyRound className="h-3.5 w-3.5" />
+            {hasPassword ? 'Change password' : 'Set password'}
+        </button>
+        </form>
+    )}
+    </div>
+);
+}
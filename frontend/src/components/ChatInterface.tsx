@@ -2,12 +2,13 @@ import { useAppStore } from '../stores/appStore';
 import { ConnectionStatus } from './ConnectionStatus';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
-import type { Message, WSMessageType, ConnectionStatus as ConnectionStatusType } from '../types/index';
+import type { Message, SendMessage, ConnectionStatus as ConnectionStatusType } from '../types/index';
+import { HISTORY_PAGE_SIZE } from '../types/index';
 import { useCallback } from 'react';
 
 interface ChatInterfaceProps {
   status: ConnectionStatusType;
-  sendMessage: (type: WSMessageType, payload: any) => boolean;
+  sendMessage: SendMessage;
   isConnected: boolean;
 }
 
@@ -16,7 +17,19 @@ export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfac
     const addMessage = useAppStore((state) => state.addMessage);
     const isTyping = useAppStore((state) => state.isTyping);
     const setIsTyping = useAppStore((state) => state.setIsTyping);
+    const isGenerating = useAppStore((state) => state.isGenerating);
     const isSidebarOpen = useAppStore((state) => state.isSidebarOpen);
+    const history = useAppStore((state) => state.history);
+    const setHistoryLoading = useAppStore((state) => state.setHistoryLoading);
+
+    // Request the page before the oldest stored message loaded so far
+    const handleLoadOlder = useCallback(() => {
+      if (!history.cursor || history.loading) return;
+
+      if (sendMessage('history', { before: history.cursor, limit: HISTORY_PAGE_SIZE })) {
+        setHistoryLoading(true);
+      }
+    }, [history.cursor, history.loading, sendMessage, setHistoryLoading]);
 
     const handleSendMessage = useCallback((content: string) => {
       if (!isConnected) {
@@ -34,12 +47,30 @@ export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfac
       addMessage(userMessage);
 
      
-      sendMessage('chat', { content });
+      sendMessage('chat', { content, clientId: userMessage.id });
 
 
       setIsTyping(true);
     }, [isConnected, sendMessage, addMessage, setIsTyping]);
 
+    const handleCancelGeneration = useCallback(() => {
+      sendMessage('cancel_generation', {});
+    }, [sendMessage]);
+
+    // The server removes the old reply (messages_removed) before streaming the new one
+    const handleRegenerate = useCallback(() => {
+      if (sendMessage('regenerate', {})) {
+        setIsTyping(true);
+      }
+    }, [sendMessage, setIsTyping]);
+
+    // The server confirms with message_updated, which also clears everything after the message
+    const handleEditMessage = useCallback((messageId: string, content: string) => {
+      if (sendMessage('edit_message', { messageId, content })) {
+        setIsTyping(true);
+      }
+    }, [sendMessage, setIsTyping]);
+
     return (
     <div className={`flex flex-col h-screen bg-gray-50 transition-all duration-300 ${
       isSidebarOpen ? 'ml-80' : 'ml-0'
@@ -56,16 +87,29 @@ export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfac
       </div>
 
       {/* Messages */}
-      <MessageList messages={messages} isTyping={isTyping} />
+      <MessageList
+        messages={messages}
+        isTyping={isTyping}
+        hasMore={history.hasMore}
+        isLoadingOlder={history.loading}
+        onLoadOlder={handleLoadOlder}
+        isGenerating={isGenerating}
+        canEdit={isConnected}
+        onCancelGeneration={handleCancelGeneration}
+        onRegenerate={handleRegenerate}
+        onEditMessage={handleEditMessage}
+      />
 
       {/* Input */}
       <MessageInput 
         onSendMessage={handleSendMessage}
-        disabled={!isConnected}
+        disabled={!isConnected || isGenerating}
         placeholder={
-          isConnected 
-            ? "Type a message..." 
-            : "Connecting to server..."
+          !isConnected
+            ? "Connecting to server..."
+            : isGenerating
+              ? "Waiting for the reply..."
+              : "Type a message..."
         }
       />
     </div>
@@ -1,29 +1,53 @@
 import { useEffect, useState, useCallback } from 'react';
-import { CheckCircle, XCircle, Clock, AlertTriangle } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, AlertTriangle, Pencil } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
-import type { WSMessageType } from '../types/index';
+import { ParameterForm } from './ParameterForm';
+import { RISK_COLORS } from '../types/index';
+import type { SendMessage } from '../types/index';
 
 interface ConfirmationDialogProps {
-  sendMessage: (type: WSMessageType, payload: any) => boolean;
+  sendMessage: SendMessage;
 }
 
 export function ConfirmationDialog({ sendMessage }: ConfirmationDialogProps) {
-const pendingConfirmation = useAppStore((state) => state.pendingConfirmation);
-const clearPendingConfirmation = useAppStore((state) => state.clearPendingConfirmation);
+const pendingConfirmations = useAppStore((state) => state.pendingConfirmations);
+const dequeueConfirmation = useAppStore((state) => state.dequeueConfirmation);
+
+// Requests are answered one at a time, oldest first
+const pendingConfirmation = pendingConfirmations[0] ?? null;
 
 const [timeRemaining, setTimeRemaining] = useState<number>(0);
 
-const handleReject = useCallback(() => {
+// Parameters being edited, tied to the request they were started for
+const [edits, setEdits] = useState<{ requestId: string; parameters: Record<string, unknown>[] } | null>(null);
+const editedParameters = pendingConfirmation && edits?.requestId === pendingConfirmation.requestId
+    ? edits.parameters
+    : null;
+
+// Per tool call approve/reject; every call is included until the user unticks it
+const [selection, setSelection] = useState<{ requestId: string; approvals: boolean[] } | null>(null);
+const itemApprovals = pendingConfirmation && selection?.requestId === pendingConfirmation.requestId
+    ? selection.approvals
+    : pendingConfirmation?.toolCalls.map(() => true) ?? [];
+const approvedCount = itemApprovals.filter(Boolean).length;
+
+const [rememberChoice, setRememberChoice] = useState(false);
+
+// Timeouts reject without remembering; only an explicit click can store a deny policy
+const handleReject = useCallback((remember: boolean = false) => {
     if (!pendingConfirmation) return;
 
     sendMessage('confirmation_response', {
     requestId: pendingConfirmation.requestId,
     approved: false,
+    decision: 'rejected',
+    rememberChoice: remember,
     timestamp: Date.now(),
     });
 
-    clearPendingConfirmation();
-}, [pendingConfirmation, sendMessage, clearPendingConfirmation]);
+    setRememberChoice(false);
+    dequeueConfirmation(pendingConfirmation.requestId);
+}, [pendingConfirmation, sendMessage, dequeueConfirmation]);
 
 // Calculate time remaining
 useEffect(() => {
@@ -49,15 +73,51 @@ useEffect(() => {
 }, [pendingConfirmation, handleReject]);
 
 const handleApprove = () => {
-    if (!pendingConfirmation) return;
+    if (!pendingConfirmation || approvedCount === 0) return;
+
+    const originalParameters = pendingConfirmation.toolCalls.map((toolCall) => toolCall.parameters);
+    const hasEdits = editedParameters !== null &&
+    JSON.stringify(editedParameters) !== JSON.stringify(originalParameters);
 
     sendMessage('confirmation_response', {
     requestId: pendingConfirmation.requestId,
     approved: true,
+    decision: hasEdits ? 'approved_with_edits' : 'approved',
+    editedParameters: hasEdits ? editedParameters : undefined,
+    itemApprovals,
+    rememberChoice,
     timestamp: Date.now(),
     });
 
-    clearPendingConfirmation();
+    setRememberChoice(false);
+    dequeueConfirmation(pendingConfirmation.requestId);
+};
+
+const handleToggleItem = (index: number) => {
+    if (!pendingConfirmation) return;
+
+    setSelection({
+    requestId: pendingConfirmation.requestId,
+    approvals: itemApprovals.map((approved, i) => (i === index ? !approved : approved)),
+    });
+};
+
+const handleStartEditing = () => {
+    if (!pendingConfirmation) return;
+
+    setEdits({
+    requestId: pendingConfirmation.requestId,
+    parameters: pendingConfirmation.toolCalls.map((toolCall) => ({ ...toolCall.parameters })),
+    });
+};
+
+const handleParameterChange = (index: number, parameters: Record<string, unknown>) => {
+    if (!pendingConfirmation || !editedParameters) return;
+
+    setEdits({
+    requestId: pendingConfirmation.requestId,
+    parameters: editedParameters.map((current, i) => (i === index ? parameters : current)),
+    });
 };
 
 // Don't render if no pending confirmation
@@ -86,6 +146,11 @@ return (
                 </h2>
                 <p className="text-sm text-gray-600">
                 The assistant wants to execute the following tool(s)
+                {pendingConfirmations.length > 1 && (
+                    <span className="ml-2 text-xs font-medium text-gray-500">
+                    (request 1 of {pendingConfirmations.length})
+                    </span>
+                )}
                 </p>
             </div>
             <div className={`flex items-center gap-2 text-sm font-medium ${
@@ -104,15 +169,30 @@ return (
             {pendingConfirmation.toolCalls.map((toolCall, index) => (
                 <div
                 key={index}
-                className="border border-gray-200 rounded-lg p-4 bg-gray-50"
+                className={`border border-gray-200 rounded-lg p-4 bg-gray-50 ${
+                    itemApprovals[index] ? '' : 'opacity-50'
+                }`}
                 >
                 <div className="flex items-center gap-2 mb-2">
+                    {pendingConfirmation.toolCalls.length > 1 && (
+                    <input
+                        type="checkbox"
+                        checked={itemApprovals[index]}
+                        onChange={() => handleToggleItem(index)}
+                        aria-label={`Include ${toolCall.toolName}`}
+                    />
+                    )}
                     <span className="text-sm font-semibold text-gray-700">
                     Tool:
                     </span>
                     <span className="text-sm font-mono bg-blue-100 text-blue-800 px-2 py-1 rounded">
                     {toolCall.toolName}
                     </span>
+                    {toolCall.riskLevel && (
+                    <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${RISK_COLORS[toolCall.riskLevel]}`}>
+                        {toolCall.riskLevel}
+                    </span>
+                    )}
                 </div>
 
                 {toolCall.description && (
@@ -125,9 +205,19 @@ return (
                     <span className="text-xs font-semibold text-gray-700 mb-1 block">
                     Parameters:
                     </span>
+                    {editedParameters && toolCall.parameterSchema ? (
+                    <div className="bg-white border border-gray-200 rounded p-3">
+                        <ParameterForm
+                        schema={toolCall.parameterSchema}
+                        values={editedParameters[index]}
+                        onChange={(parameters) => handleParameterChange(index, parameters)}
+                        />
+                    </div>
+                    ) : (
                     <pre className="text-xs bg-white border border-gray-200 rounded p-3 overflow-x-auto">
                     {JSON.stringify(toolCall.parameters, null, 2)}
                     </pre>
+                    )}
                 </div>
                 </div>
             ))}
@@ -147,12 +237,33 @@ return (
         {/* Footer */}
         <div className="bg-gray-50 border-t border-gray-200 px-6 py-4">
             <div className="flex items-center justify-between gap-4">
-            <p className="text-sm text-gray-600">
-                Do you want to allow this tool execution?
-            </p>
+            <div>
+                <p className="text-sm text-gray-600">
+                {pendingConfirmation.toolCalls.length > 1
+                    ? `Allow ${approvedCount} of ${pendingConfirmation.toolCalls.length} tool calls?`
+                    : 'Do you want to allow this tool execution?'}
+                </p>
+                <label className="flex items-center gap-2 mt-1 text-xs text-gray-600 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rememberChoice}
+                    onChange={(e) => setRememberChoice(e.target.checked)}
+                />
+                Remember this choice for {pendingConfirmation.toolCalls.map((toolCall) => toolCall.toolName).join(', ')}
+                </label>
+            </div>
             <div className="flex gap-3">
+                {!editedParameters && pendingConfirmation.toolCalls.some((toolCall) => toolCall.parameterSchema) && (
+                <button
+                    onClick={handleStartEditing}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
+                >
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                </button>
+                )}
                 <button
-                onClick={handleReject}
+                onClick={() => handleReject(rememberChoice)}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
                 >
                 <XCircle className="h-4 w-4" />
@@ -160,10 +271,11 @@ return (
                 </button>
                 <button
                 onClick={handleApprove}
-                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                disabled={approvedCount === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                 <CheckCircle className="h-4 w-4" />
-                Approve
+                {approvedCount < pendingConfirmation.toolCalls.length && approvedCount > 0 ? 'Approve selected' : 'Approve'}
                 </button>
             </div>
             </div>
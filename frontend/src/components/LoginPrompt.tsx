@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { LogIn } from 'lucide-react';
+
+interface LoginPromptProps {
+  userId: string;
+  onLogin: (userId: string, password: string) => Promise<string | null>;
+  onStartOver: () => void;
+}
+
+export function LoginPrompt({ userId: expiredUserId, onLogin, onStartOver }: LoginPromptProps) {
+// Prefilled with the account last used here; editable to log in to another one
+const [userId, setUserId] = useState(expiredUserId);
+const [password, setPassword] = useState('');
+const [error, setError] = useState<string | null>(null);
+const [isSubmitting, setIsSubmitting] = useState(false);
+
+const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(await onLogin(userId, password));
+    setIsSubmitting(false);
+};
+
+return (
+    <>
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-40" />
+
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <form
+        onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+        }}
+        className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4"
+        >
+        <div className="flex items-center gap-3">
+            <LogIn className="h-6 w-6 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Your session has expired</h2>
+        </div>
+
+        <p className="text-sm text-gray-600">
+            Log in with your user id and the password you set under Account to get back to your tasks
+            and conversations.
+        </p>
+
+        <input
+            value={userId}
+            onChange={(e) => setUserId(e.target.value.trim())}
+            placeholder="User id"
+            autoComplete="username"
+            className="w-full text-sm font-mono rounded border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        <input
+            type="password"
+            autoComplete="current-password"
+            autoFocus
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            className="w-full text-sm rounded border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+            type="submit"
+            disabled={!userId || !password || isSubmitting}
+            className="w-full bg-blue-600 text-white text-sm font-medium rounded-lg px-4 py-2 hover:bg-blue-700 disabled:opacity-50"
+        >
+            Log in
+        </button>
+
+        <div className="border-t border-gray-200 pt-4">
+            <p className="text-xs text-gray-500 mb-2">
+            Never set a password? Start a new, empty account instead. The old one is kept, not deleted.
+            </p>
+            <button
+            type="button"
+            onClick={onStartOver}
+            className="text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+            Start a new account
+            </button>
+        </div>
+        </form>
+    </div>
+    </>
+);
+}
@@ -1,4 +1,5 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Pencil, RotateCcw, Square } from 'lucide-react';
 import type { Message } from '../types/index';
 import { ROLE_COLORS } from '../types/index';
 import { format } from 'date-fns';
@@ -6,18 +7,98 @@ import { format } from 'date-fns';
 interface MessageListProps {
 messages: Message[];
 isTyping?: boolean;
+hasMore?: boolean;
+isLoadingOlder?: boolean;
+onLoadOlder?: () => void;
+isGenerating?: boolean;
+canEdit?: boolean; // Regenerate and edit need a live connection
+onCancelGeneration?: () => void;
+onRegenerate?: () => void;
+onEditMessage?: (messageId: string, content: string) => void;
 }
 
-export function MessageList({ messages, isTyping = false }: MessageListProps) {
+// Start loading the previous page this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
+export function MessageList({
+messages,
+isTyping = false,
+hasMore = false,
+isLoadingOlder = false,
+onLoadOlder,
+isGenerating = false,
+canEdit = false,
+onCancelGeneration,
+onRegenerate,
+onEditMessage,
+}: MessageListProps) {
+const containerRef = useRef<HTMLDivElement>(null);
 const messagesEndRef = useRef<HTMLDivElement>(null);
 
-// Auto-scroll to bottom when new messages arrive
+// Scroll height before an older page was requested, used to keep the view still when it lands
+const scrollHeightBeforeLoadRef = useRef<number | null>(null);
+
+const firstMessageId = messages[0]?.id;
+const lastMessage = messages[messages.length - 1];
+
+// User message being edited inline
+const [editing, setEditing] = useState<{ messageId: string; content: string } | null>(null);
+
+const canChangeTurns = canEdit && !isGenerating;
+
+const handleEditSubmit = () => {
+    if (!editing || !onEditMessage) return;
+
+    const content = editing.content.trim();
+    const original = messages.find((message) => message.id === editing.messageId);
+    if (content && content !== original?.content) {
+    onEditMessage(editing.messageId, content);
+    }
+    setEditing(null);
+};
+
+// Auto-scroll to bottom when new messages arrive (not when older ones are prepended)
 useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-}, [messages, isTyping]);
+}, [lastMessage?.id, lastMessage?.content, isTyping]);
+
+// Keep the same messages in view after an older page is prepended
+useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && scrollHeightBeforeLoadRef.current !== null) {
+    container.scrollTop += container.scrollHeight - scrollHeightBeforeLoadRef.current;
+    scrollHeightBeforeLoadRef.current = null;
+    }
+}, [firstMessageId]);
+
+const loadOlder = () => {
+    if (!hasMore || isLoadingOlder || !onLoadOlder) return;
+
+    scrollHeightBeforeLoadRef.current = containerRef.current?.scrollHeight ?? null;
+    onLoadOlder();
+};
+
+const handleScroll = () => {
+    if (containerRef.current && containerRef.current.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+    loadOlder();
+    }
+};
 
 return (
-    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+    <div ref={containerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-4">
+    {/* Older history */}
+    {hasMore && (
+        <div className="flex justify-center">
+        <button
+            onClick={loadOlder}
+            disabled={isLoadingOlder}
+            className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+            {isLoadingOlder ? 'Loading older messages...' : 'Load older messages'}
+        </button>
+        </div>
+    )}
+
     {messages.length === 0 ? (
         <div className="flex items-center justify-center h-full text-gray-400">
         <div className="text-center">
@@ -42,9 +123,57 @@ return (
                 {format(message.timestamp, 'HH:mm')}
                 </span>
             </div>
-            <p className="text-sm whitespace-pre-wrap break-words">
+            {editing?.messageId === message.id ? (
+                <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    handleEditSubmit();
+                }}
+                >
+                <textarea
+                    autoFocus
+                    value={editing.content}
+                    onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                    rows={3}
+                    className="w-full min-w-[16rem] resize-none rounded border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex justify-end gap-2 mt-1">
+                    <button type="button" onClick={() => setEditing(null)} className="text-xs opacity-80 hover:opacity-100">
+                    Cancel
+                    </button>
+                    <button type="submit" className="text-xs font-semibold">
+                    Save & resend
+                    </button>
+                </div>
+                </form>
+            ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">
                 {message.content}
-            </p>
+                </p>
+            )}
+
+            {/* Turn controls */}
+            {canChangeTurns && !editing && message.role === 'user' && onEditMessage && (
+                <button
+                onClick={() => setEditing({ messageId: message.id, content: message.content })}
+                className="flex items-center gap-1 mt-1 text-xs opacity-70 hover:opacity-100"
+                title="Edit and resend"
+                >
+                <Pencil className="h-3 w-3" />
+                Edit
+                </button>
+            )}
+            {canChangeTurns && message.role === 'assistant' && message.id === lastMessage?.id && onRegenerate && (
+                <button
+                onClick={onRegenerate}
+                className="flex items-center gap-1 mt-1 text-xs opacity-70 hover:opacity-100"
+                title="Regenerate response"
+                >
+                <RotateCcw className="h-3 w-3" />
+                Regenerate
+                </button>
+            )}
             </div>
         </div>
         ))
@@ -63,6 +192,19 @@ return (
         </div>
     )}
 
+    {/* Stop the reply in progress */}
+    {isGenerating && onCancelGeneration && (
+        <div className="flex justify-center">
+        <button
+            onClick={onCancelGeneration}
+            className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100"
+        >
+            <Square className="h-3 w-3" />
+            Stop generating
+        </button>
+        </div>
+    )}
+
     {/* Scroll anchor */}
     <div ref={messagesEndRef} />
     </div>
@@ -0,0 +1,116 @@
+import type { ParameterSchema } from '../types/index';
+
+interface ParameterFormProps {
+schema: ParameterSchema;
+values: Record<string, unknown>;
+onChange: (values: Record<string, unknown>) => void;
+}
+
+// Convert raw input text back to the type the schema expects; empty optional fields are dropped
+function parseFieldValue(field: ParameterSchema, raw: string): unknown {
+if (raw === '') return undefined;
+
+if ((field.type === 'number' || field.type === 'integer') && !isNaN(Number(raw))) {
+    return Number(raw);
+}
+
+return raw;
+}
+
+export function ParameterForm({ schema, values, onChange }: ParameterFormProps) {
+const properties = schema.properties || {};
+const required = new Set(schema.required || []);
+
+const setField = (key: string, value: unknown) => {
+    const next = { ...values };
+    if (value === undefined) {
+    delete next[key];
+    } else {
+    next[key] = value;
+    }
+    onChange(next);
+};
+
+if (Object.keys(properties).length === 0) {
+    return <p className="text-xs text-gray-500">This tool takes no parameters.</p>;
+}
+
+return (
+    <div className="space-y-3">
+    {Object.entries(properties).map(([key, field]) => {
+        const value = values[key];
+        const inputId = `param-${key}`;
+        const inputClass = 'w-full text-sm rounded border border-gray-300 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+        let input;
+        if (field.enum) {
+        input = (
+            <select
+            id={inputId}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setField(key, e.target.value === '' ? undefined : e.target.value)}
+            className={inputClass}
+            >
+            {!required.has(key) && <option value="">(none)</option>}
+            {field.enum.map((option) => (
+                <option key={String(option)} value={String(option)}>{String(option)}</option>
+            ))}
+            </select>
+        );
+        } else if (field.type === 'boolean') {
+        input = (
+            <select
+            id={inputId}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setField(key, e.target.value === '' ? undefined : e.target.value === 'true')}
+            className={inputClass}
+            >
+            {!required.has(key) && <option value="">(none)</option>}
+            <option value="true">true</option>
+            <option value="false">false</option>
+            </select>
+        );
+        } else if (field.type === 'string' && field.maxLength === undefined && field.format === undefined) {
+        // Unbounded text such as descriptions and email bodies
+        input = (
+            <textarea
+            id={inputId}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setField(key, parseFieldValue(field, e.target.value))}
+            rows={3}
+            className={inputClass}
+            />
+        );
+        } else {
+        // Numbers the model already filled in as text (e.g. ISO due dates) stay editable as text
+        const numeric = (field.type === 'number' || field.type === 'integer') && typeof value !== 'string';
+        input = (
+            <input
+            id={inputId}
+            type={numeric ? 'number' : field.format === 'email' ? 'email' : 'text'}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setField(key, parseFieldValue(numeric ? field : { type: 'string' }, e.target.value))}
+            min={field.minimum}
+            max={field.maximum}
+            maxLength={field.maxLength}
+            className={inputClass}
+            />
+        );
+        }
+
+        return (
+        <div key={key}>
+            <label htmlFor={inputId} className="block text-xs font-semibold text-gray-700 mb-1">
+            {key}
+            {required.has(key) && <span className="text-red-600"> *</span>}
+            </label>
+            {input}
+            {field.description && (
+            <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+            )}
+        </div>
+        );
+    })}
+    </div>
+);
+}
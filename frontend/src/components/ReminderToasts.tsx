@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Bell, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAppStore } from '../stores/appStore';
+
+export function ReminderToasts() {
+const reminders = useAppStore((state) => state.reminders);
+const dismissReminder = useAppStore((state) => state.dismissReminder);
+
+// Browsers only show the permission prompt in response to a click
+const [permission, setPermission] = useState(() =>
+    'Notification' in window ? Notification.permission : 'denied'
+);
+
+if (reminders.length === 0) return null;
+
+return (
+    <div className="fixed bottom-4 right-4 z-40 flex w-80 flex-col gap-2">
+    {reminders.map((reminder) => (
+        <div
+        key={reminder.id}
+        className="rounded-lg border border-amber-200 bg-amber-50 p-3 shadow-lg"
+        role="alert"
+        >
+        <div className="flex items-start gap-2">
+            <Bell className="mt-0.5 h-4 w-4 flex-shrink-0 text-amber-600" />
+            <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-amber-900 truncate">{reminder.title}</p>
+            <p className="text-sm text-amber-800">{reminder.message}</p>
+            {reminder.dueDate && (
+                <p className="mt-1 text-xs text-amber-700">
+                Due {formatDistanceToNow(reminder.dueDate * 1000, { addSuffix: true })}
+                </p>
+            )}
+            </div>
+            <button
+            onClick={() => dismissReminder(reminder.id)}
+            className="text-amber-500 hover:text-amber-800"
+            title="Dismiss"
+            >
+            <X className="h-4 w-4" />
+            </button>
+        </div>
+        </div>
+    ))}
+
+    {permission === 'default' && (
+        <button
+        onClick={() => Notification.requestPermission().then(setPermission)}
+        className="self-end text-xs font-medium text-blue-600 hover:text-blue-800"
+        >
+        Enable desktop notifications for reminders
+        </button>
+    )}
+    </div>
+);
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { BarChart3, ChevronDown, ChevronRight, Flame } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import { useTaskStats } from '../hooks/useTaskStats';
+
+const ranges = [
+    { days: 7, label: '7d' },
+    { days: 30, label: '30d' },
+    { days: 90, label: '90d' },
+];
+
+const priorities = ['high', 'medium', 'low'] as const;
+
+export function StatsPanel() {
+const userId = useAppStore((state) => state.userId);
+const [isOpen, setIsOpen] = useState(false);
+const [days, setDays] = useState(7);
+
+const stats = useTaskStats(isOpen ? userId : null, days);
+
+// Tallest bar in the completions chart
+const maxPerDay = Math.max(1, ...(stats?.completedByDay.map((d) => d.completed) ?? []));
+
+return (
+    <div className="border-b border-gray-200 px-4 py-3">
+    <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between"
+    >
+        <div className="flex items-center gap-2">
+        <BarChart3 className="h-4 w-4 text-gray-700" />
+        <h2 className="text-sm font-semibold text-gray-900">Productivity</h2>
+        </div>
+        {isOpen ? (
+        <ChevronDown className="h-4 w-4 text-gray-500" />
+        ) : (
+        <ChevronRight className="h-4 w-4 text-gray-500" />
+        )}
+    </button>
+
+    {isOpen && (
+        <div className="mt-3 space-y-3">
+        <div className="flex gap-1">
+            {ranges.map((range) => (
+            <button
+                key={range.days}
+                onClick={() => setDays(range.days)}
+                className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                days === range.days
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                }`}
+            >
+                {range.label}
+            </button>
+            ))}
+        </div>
+
+        {!stats ? (
+            <p className="text-xs text-gray-400">Loading…</p>
+        ) : (
+            <>
+            <div className="grid grid-cols-2 gap-2 text-center">
+                <div className="rounded-lg bg-gray-50 p-2">
+                <p className="text-lg font-semibold text-gray-900">
+                    {stats.completionRate === null ? '–' : `${Math.round(stats.completionRate * 100)}%`}
+                </p>
+                <p className="text-xs text-gray-500">Completion rate</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-2">
+                <p className="text-lg font-semibold text-gray-900">{stats.completed}</p>
+                <p className="text-xs text-gray-500">Completed</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-2">
+                <p className={`text-lg font-semibold ${stats.overdue > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {stats.overdue}
+                </p>
+                <p className="text-xs text-gray-500">Overdue now</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-2">
+                <p className="text-lg font-semibold text-gray-900">
+                    {stats.averageHoursToComplete === null ? '–' : `${stats.averageHoursToComplete}h`}
+                </p>
+                <p className="text-xs text-gray-500">Avg. time to done</p>
+                </div>
+            </div>
+
+            {/* Completions per day, oldest first */}
+            <div className="flex h-10 items-end gap-px" title="Completed per day">
+                {stats.completedByDay.map((day) => (
+                <div
+                    key={day.date}
+                    className="flex-1 rounded-sm bg-blue-400"
+                    style={{ height: `${(day.completed / maxPerDay) * 100}%`, minHeight: day.completed ? 2 : 0 }}
+                    title={`${day.date}: ${day.completed}`}
+                />
+                ))}
+            </div>
+
+            <div className="flex items-center gap-1 text-xs text-gray-600">
+                <Flame className="h-3.5 w-3.5 text-orange-500" />
+                <span>
+                {stats.streak.current}-day streak · best {stats.streak.longest} in range
+                </span>
+            </div>
+
+            <table className="w-full text-xs text-gray-600">
+                <thead>
+                <tr className="text-gray-400">
+                    <th className="text-left font-medium">Priority</th>
+                    <th className="text-right font-medium">Created</th>
+                    <th className="text-right font-medium">Done</th>
+                    <th className="text-right font-medium">Overdue</th>
+                </tr>
+                </thead>
+                <tbody>
+                {priorities.map((priority) => (
+                    <tr key={priority}>
+                    <td className="capitalize">{priority}</td>
+                    <td className="text-right">{stats.byPriority[priority].created}</td>
+                    <td className="text-right">{stats.byPriority[priority].completed}</td>
+                    <td className="text-right">{stats.byPriority[priority].overdue}</td>
+                    </tr>
+                ))}
+                </tbody>
+            </table>
+
+            {stats.completedLate > 0 && (
+                <p className="text-xs text-gray-500">
+                {stats.completedLate} completed after the due date
+                </p>
+            )}
+            </>
+        )}
+        </div>
+    )}
+    </div>
+);
+}
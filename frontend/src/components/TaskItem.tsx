@@ -1,14 +1,36 @@
 import { PRIORITY_COLORS } from '../types';
-import type { Task } from '../types/index';
+import type { Task, Recurrence } from '../types/index';
 import { format } from 'date-fns';
-import { CheckCircle2, Circle, Calendar } from 'lucide-react';
+import { CheckCircle2, Circle, Calendar, Bell, Repeat, ListTree } from 'lucide-react';
+
+// Short label for a reminder offset in minutes: "1d", "2h", "30m", "at due time"
+function formatReminderOffset(minutes: number): string {
+if (minutes === 0) return 'at due time';
+if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+if (minutes % 60 === 0) return `${minutes / 60}h`;
+return `${minutes}m`;
+}
+
+// Short label for a recurrence rule: "Daily", "Every 2 weeks (MO, WE)", "Monthly on day 1"
+function formatRecurrence(rule: Recurrence): string {
+const interval = rule.interval ?? 1;
+const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+
+let label = interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }[rule.frequency]
+    : `Every ${interval} ${unit}s`;
+if (rule.byWeekday) label += ` (${rule.byWeekday.join(', ')})`;
+if (rule.byMonthDay !== undefined) label += ` on day ${rule.byMonthDay}`;
+return label;
+}
 
 interface TaskItemProps {
 task: Task;
+subtasks?: Task[]; // Rendered nested under the task, in order
 onToggleComplete?: (taskId: string) => void;
 }
 
-export function TaskItem({ task, onToggleComplete }: TaskItemProps) {
+export function TaskItem({ task, subtasks = [], onToggleComplete }: TaskItemProps) {
 const priorityColor = PRIORITY_COLORS[task.priority || 'low'];
 
 const handleToggle = () => {
@@ -67,9 +89,42 @@ return (
                 </span>
             </div>
             )}
+
+            {task.recurrence && (
+            <div className="flex items-center gap-1 text-xs text-gray-600" title="Completing it creates the next occurrence">
+                <Repeat className="h-3 w-3" />
+                <span>{formatRecurrence(task.recurrence)}</span>
+            </div>
+            )}
+
+            {/* Only tasks with their own reminder times; the rest use the user's defaults */}
+            {task.dueDate && task.reminderOffsets && (
+            <div className="flex items-center gap-1 text-xs text-gray-600" title="Reminders before the due date">
+                <Bell className="h-3 w-3" />
+                <span>
+                {task.reminderOffsets.length > 0 ? task.reminderOffsets.map(formatReminderOffset).join(', ') : 'none'}
+                </span>
+            </div>
+            )}
         </div>
         </div>
     </div>
+
+    {subtasks.length > 0 && (
+        <div className="mt-3 ml-7 space-y-2 border-l-2 border-gray-100 pl-3">
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+            <ListTree className="h-3 w-3" />
+            Subtasks
+        </p>
+        {subtasks.map((subtask) => (
+            <TaskItem
+            key={subtask.id}
+            task={subtask}
+            onToggleComplete={onToggleComplete}
+            />
+        ))}
+        </div>
+    )}
     </div>
 );
 }
\ No newline at end of file
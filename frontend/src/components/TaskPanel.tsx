@@ -1,11 +1,14 @@
 import { useAppStore } from '../stores/appStore';
 import { TaskItem } from './TaskItem';
+import { ThreadList } from './ThreadList';
+import { StatsPanel } from './StatsPanel';
+import { AccountPanel } from './AccountPanel';
 import { ChevronLeft, ChevronRight, ListTodo } from 'lucide-react';
-import type { TaskFilter, WSMessageType } from '../types/index';
+import type { TaskFilter, SendMessage } from '../types/index';
 import { useTasks } from '../hooks/useTasks';
 
 interface TaskPanelProps {
-  sendMessage: (type: WSMessageType, payload: any) => boolean;
+  sendMessage: SendMessage;
   isConnected: boolean;
 }
 
@@ -36,10 +39,7 @@ const handleToggleComplete = (taskId: string) => {
 
     // Sync to backend via WebSocket
     if (isConnected) {
-      const success = sendMessage('complete_task', {
-        taskId: taskId,
-        completed: newCompleted,
-      });
+      const success = sendMessage('complete_task', { taskId });
 
       if (!success) {
         // Rollback on send failure
@@ -61,6 +61,13 @@ const filters: { value: TaskFilter; label: string }[] = [
     { value: 'completed', label: 'Completed' },
 ];
 
+// Subtasks are shown under their parent, in order; one whose parent is filtered out stands alone
+const taskIds = new Set(tasks.map((t) => t.id));
+const topLevelTasks = tasks.filter((t) => !t.parentTaskId || !taskIds.has(t.parentTaskId));
+const subtasksOf = (taskId: string) => tasks
+    .filter((t) => t.parentTaskId === taskId)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
 const pendingCount = useAppStore((state) =>
     state.tasks.filter((t) => !t.completed).length
 );
@@ -79,12 +86,18 @@ return (
     )}
 
     <div
-        className={`fixed top-0 left-0 h-screen bg-white border-r border-gray-200 z-30 transition-transform duration-300 ${
+        className={`fixed top-0 left-0 h-screen flex flex-col bg-white border-r border-gray-200 z-30 transition-transform duration-300 ${
         isSidebarOpen ? 'translate-x-0' : '-translate-x-full'
         }`}
         style={{ width: '320px' }}
     >
-       
+
+        <ThreadList sendMessage={sendMessage} isConnected={isConnected} />
+
+        <StatsPanel />
+
+        <AccountPanel />
+
         <div className="bg-gray-50 border-b border-gray-200 px-4 py-3">
         <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -124,7 +137,7 @@ return (
         </div>
 
  
-        <div className="overflow-y-auto p-4 space-y-3" style={{ height: 'calc(100vh - 140px)' }}>
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {tasks.length === 0 ? (
             <div className="flex items-center justify-center h-full text-gray-400">
             <div className="text-center">
@@ -136,10 +149,11 @@ return (
             </div>
             </div>
         ) : (
-            tasks.map((task) => (
+            topLevelTasks.map((task) => (
             <TaskItem
                 key={task.id}
                 task={task}
+                subtasks={subtasksOf(task.id)}
                 onToggleComplete={handleToggleComplete}
             />
             ))
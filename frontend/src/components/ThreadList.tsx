@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { MessagesSquare, Plus, Pencil, Archive } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAppStore } from '../stores/appStore';
+import type { Thread, SendMessage } from '../types/index';
+
+interface ThreadListProps {
+  sendMessage: SendMessage;
+  isConnected: boolean;
+}
+
+export function ThreadList({ sendMessage, isConnected }: ThreadListProps) {
+const threads = useAppStore((state) => state.threads);
+const activeThreadId = useAppStore((state) => state.activeThreadId);
+const isGenerating = useAppStore((state) => state.isGenerating);
+
+// A reply being generated belongs to the active thread, so it can't be left until the reply is done
+const canLeaveThread = isConnected && !isGenerating;
+
+// Thread whose title is being edited inline
+const [renaming, setRenaming] = useState<{ threadId: string; title: string } | null>(null);
+
+const handleRenameSubmit = () => {
+    if (!renaming) return;
+
+    const title = renaming.title.trim();
+    if (title) {
+    sendMessage('thread_rename', { threadId: renaming.threadId, title });
+    }
+    setRenaming(null);
+};
+
+const renderThread = (thread: Thread) => {
+    const isActive = thread.id === activeThreadId;
+
+    if (renaming?.threadId === thread.id) {
+    return (
+        <form
+        key={thread.id}
+        onSubmit={(e) => {
+            e.preventDefault();
+            handleRenameSubmit();
+        }}
+        >
+        <input
+            autoFocus
+            value={renaming.title}
+            onChange={(e) => setRenaming({ ...renaming, title: e.target.value })}
+            onBlur={handleRenameSubmit}
+            onKeyDown={(e) => e.key === 'Escape' && setRenaming(null)}
+            maxLength={100}
+            className="w-full text-sm rounded border border-blue-400 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        </form>
+    );
+    }
+
+    return (
+    <div
+        key={thread.id}
+        className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 cursor-pointer transition-colors ${
+        isActive ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+        onClick={() => !isActive && canLeaveThread && sendMessage('thread_switch', { threadId: thread.id })}
+    >
+        <div className="flex-1 min-w-0">
+        <p className={`text-sm truncate ${thread.title ? 'font-medium' : 'italic text-gray-500'}`}>
+            {thread.title || 'New conversation'}
+        </p>
+        <p className="text-xs text-gray-400">
+            {formatDistanceToNow(thread.updatedAt * 1000, { addSuffix: true })}
+        </p>
+        </div>
+        <button
+        onClick={(e) => {
+            e.stopPropagation();
+            setRenaming({ threadId: thread.id, title: thread.title || '' });
+        }}
+        disabled={!isConnected}
+        className="hidden group-hover:block text-gray-400 hover:text-gray-700"
+        title="Rename"
+        >
+        <Pencil className="h-3.5 w-3.5" />
+        </button>
+        <button
+        onClick={(e) => {
+            e.stopPropagation();
+            sendMessage('thread_archive', { threadId: thread.id });
+        }}
+        disabled={isActive ? !canLeaveThread : !isConnected}
+        className="hidden group-hover:block text-gray-400 hover:text-gray-700"
+        title="Archive"
+        >
+        <Archive className="h-3.5 w-3.5" />
+        </button>
+    </div>
+    );
+};
+
+return (
+    <div className="border-b border-gray-200 px-4 py-3">
+    <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+        <MessagesSquare className="h-4 w-4 text-gray-700" />
+        <h2 className="text-sm font-semibold text-gray-900">Conversations</h2>
+        </div>
+        <button
+        onClick={() => sendMessage('thread_create', {})}
+        disabled={!canLeaveThread}
+        className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        title="New conversation"
+        >
+        <Plus className="h-4 w-4" />
+        New
+        </button>
+    </div>
+
+    <div className="space-y-1 max-h-56 overflow-y-auto">
+        {/* Unsaved conversation: no thread until its first message is sent */}
+        {activeThreadId === null && (
+        <div className="rounded-lg px-2 py-1.5 bg-blue-50 text-sm italic text-blue-900">
+            New conversation
+        </div>
+        )}
+        {threads.map(renderThread)}
+    </div>
+    </div>
+);
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAppStore } from "../stores/appStore";
+import { clearStoredSession } from "./useAuth";
+
+/**
+ * Whether the signed-in user has a password, and a way to set or change it
+ * Without one the account is lost once the session token expires.
+ */
+export function useAccount(userId: string | null) {
+    const authToken = useAppStore((state) => state.authToken);
+    const [hasPassword, setHasPassword] = useState<boolean | null>(null);
+
+    useEffect(() => {
+        if (!userId || !authToken) return;
+
+        const controller = new AbortController();
+
+        (async () => {
+            try {
+                const response = await fetch(`/api/user/${userId}`, {
+                    headers: { Authorization: `Bearer ${authToken}` },
+                    signal: controller.signal,
+                });
+                if (response.status === 401) {
+                    clearStoredSession();
+                    return;
+                }
+                if (!response.ok) {
+                    throw new Error('Failed to fetch account.');
+                }
+
+                const data = await response.json();
+                setHasPassword(Boolean(data.has_password));
+            } catch (error) {
+                if (!controller.signal.aborted) {
+                    console.error('[useAccount] Error fetching account:', error);
+                }
+            }
+        })();
+
+        return () => controller.abort();
+    }, [userId, authToken]);
+
+    // Resolves to an error message on failure
+    const setPassword = useCallback(async (password: string, currentPassword?: string): Promise<string | null> => {
+        if (!userId || !authToken) return 'Not signed in.';
+
+        try {
+            const response = await fetch(`/api/user/${userId}/password`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${authToken}`,
+                },
+                body: JSON.stringify({ password, currentPassword }),
+            });
+            if (response.status === 401) {
+                clearStoredSession();
+                return 'Your session has expired.';
+            }
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                return data.error || 'Could not set the password.';
+            }
+
+            setHasPassword(true);
+            return null;
+        } catch (error) {
+            console.error('[useAccount] Error setting password:', error);
+            return 'Could not set the password. Please try again.';
+        }
+    }, [userId, authToken]);
+
+    return { hasPassword, setPassword };
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAppStore } from "../stores/appStore";
+
+const TOKEN_STORAGE_KEY = 'authToken';
+
+// The last signed-in user, kept after the token is dropped so an expired session never becomes a new account
+const USER_ID_STORAGE_KEY = 'authUserId';
+
+// Refresh a little before the server would start rejecting the token
+const EXPIRY_MARGIN_SECONDS = 60;
+
+// Tokens older than this are swapped for a fresh one on load, so regular use never lets them expire
+const REFRESH_AFTER_SECONDS = 24 * 60 * 60;
+
+/**
+ * Read the user id, issue time and expiry out of a session token
+ * The signature is checked by the server; this only decides whether the token is worth sending
+ */
+function decodeSessionToken(token: string): { userId: string; issuedAt: number; expiresAt: number } | null {
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+            return null;
+        }
+        return { userId: payload.sub, issuedAt: typeof payload.iat === 'number' ? payload.iat : 0, expiresAt: payload.exp };
+    } catch {
+        return null;
+    }
+}
+
+function storeSession(token: string, userId: string) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    localStorage.setItem(USER_ID_STORAGE_KEY, userId);
+    useAppStore.getState().setSession(token, userId);
+}
+
+/**
+ * Restore the stored session token, refreshing it when it is getting old
+ *
+ * A new user is registered only on a device that has never had one. Once a user's token has
+ * expired or been rejected, `expiredUserId` is set and the user has to log in again (or
+ * explicitly start a new account) instead of silently losing their data to a new id.
+ */
+export function useAuth() {
+    const authToken = useAppStore((state) => state.authToken);
+    const setSession = useAppStore((state) => state.setSession);
+    const [expiredUserId, setExpiredUserId] = useState<string | null>(null);
+
+    const register = useCallback(async () => {
+        try {
+            const response = await fetch('/api/users/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+            });
+            if (!response.ok) {
+                throw new Error(`Registration failed with status ${response.status}`);
+            }
+
+            const data = await response.json();
+            console.log('[useAuth] Registered new user:', data.userId);
+
+            setExpiredUserId(null);
+            storeSession(data.token, data.userId);
+        } catch (error) {
+            console.error('[useAuth] Failed to start a session:', error);
+            useAppStore.getState().setError('Could not sign in. Please reload the page.');
+        }
+    }, []);
+
+    // Resolves to an error message on failure
+    const login = useCallback(async (userId: string, password: string): Promise<string | null> => {
+        try {
+            const response = await fetch('/api/users/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ userId, password }),
+            });
+            if (response.status === 401) {
+                return 'Wrong user id or password.';
+            }
+            if (!response.ok) {
+                throw new Error(`Login failed with status ${response.status}`);
+            }
+
+            const data = await response.json();
+            console.log('[useAuth] Logged in as user:', data.userId);
+
+            setExpiredUserId(null);
+            storeSession(data.token, data.userId);
+            return null;
+        } catch (error) {
+            console.error('[useAuth] Failed to log in:', error);
+            return 'Could not log in. Please try again.';
+        }
+    }, []);
+
+    useEffect(() => {
+        if (authToken) return;
+
+        async function initializeSession() {
+            // Raw ids from before tokens were required can no longer be used to connect
+            localStorage.removeItem('userId');
+
+            const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+            const stored = storedToken ? decodeSessionToken(storedToken) : null;
+            const now = Date.now() / 1000;
+
+            if (storedToken && stored && stored.expiresAt - EXPIRY_MARGIN_SECONDS > now) {
+                console.log('[useAuth] Using stored session for user:', stored.userId);
+                localStorage.setItem(USER_ID_STORAGE_KEY, stored.userId);
+
+                if (now - stored.issuedAt < REFRESH_AFTER_SECONDS) {
+                    setSession(storedToken, stored.userId);
+                    return;
+                }
+
+                try {
+                    const response = await fetch('/api/users/refresh', {
+                        method: 'POST',
+                        headers: { Authorization: `Bearer ${storedToken}` },
+                    });
+                    if (response.ok) {
+                        const data = await response.json();
+                        console.log('[useAuth] Refreshed session for user:', data.userId);
+                        storeSession(data.token, data.userId);
+                        return;
+                    }
+                    if (response.status !== 401) {
+                        throw new Error(`Refresh failed with status ${response.status}`);
+                    }
+                    // Rejected: fall through and ask the user to log in
+                } catch (error) {
+                    // The current token still works; try refreshing again next time
+                    console.warn('[useAuth] Failed to refresh session:', error);
+                    setSession(storedToken, stored.userId);
+                    return;
+                }
+            }
+
+            const knownUserId = localStorage.getItem(USER_ID_STORAGE_KEY) ?? stored?.userId ?? null;
+            localStorage.removeItem(TOKEN_STORAGE_KEY);
+
+            if (knownUserId) {
+                console.log('[useAuth] Session expired for user:', knownUserId);
+                setExpiredUserId(knownUserId);
+                return;
+            }
+
+            await register();
+        }
+
+        initializeSession();
+    }, [authToken, setSession, register]);
+
+    return { expiredUserId, login, register };
+}
+
+/**
+ * Forget the stored session token, e.g. after the server rejects it
+ * The user id is kept, so the user is asked to log in again rather than given a new account.
+ */
+export function clearStoredSession() {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    useAppStore.getState().clearSession();
+}
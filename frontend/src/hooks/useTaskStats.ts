@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useAppStore } from "../stores/appStore";
+import { clearStoredSession } from "./useAuth";
+import type { TaskStats } from "../types/index";
+
+export function useTaskStats(userId: string | null, days: number) {
+    const authToken = useAppStore((state) => state.authToken);
+    // Refetch whenever the task list changes
+    const tasks = useAppStore((state) => state.tasks);
+    const [stats, setStats] = useState<TaskStats | null>(null);
+
+    useEffect(() => {
+        if (!userId || !authToken) return;
+
+        const controller = new AbortController();
+
+        (async () => {
+            try {
+                const response = await fetch(`/api/user/${userId}/stats?days=${days}`, {
+                    headers: { Authorization: `Bearer ${authToken}` },
+                    signal: controller.signal,
+                });
+                if (response.status === 401) {
+                    clearStoredSession();
+                    return;
+                }
+                if (!response.ok) {
+                    throw new Error('Failed to fetch task stats.');
+                }
+
+                setStats(await response.json());
+            } catch (error) {
+                if (!controller.signal.aborted) {
+                    console.error('[useTaskStats] Error fetching task stats:', error);
+                }
+            }
+        })();
+
+        return () => controller.abort();
+    }, [userId, authToken, days, tasks]);
+
+    return stats;
+}
@@ -1,14 +1,23 @@
 import { useEffect, useCallback } from "react";
 import { useAppStore } from "../stores/appStore";
+import { clearStoredSession } from "./useAuth";
 
 export function useTasks(userId: string | null) {
     const setTasks = useAppStore((state) => state.setTasks);
+    const authToken = useAppStore((state) => state.authToken);
 
     const fetchTasks = useCallback(async () => {
-        if (!userId) return;
+        if (!userId || !authToken) return;
 
         try {
-            const response = await fetch(`/api/user/${userId}/tasks`);
+            const response = await fetch(`/api/user/${userId}/tasks`, {
+                headers: { Authorization: `Bearer ${authToken}` },
+            });
+            if (response.status === 401) {
+                // Token was rejected (expired or the server secret changed); start a new session
+                clearStoredSession();
+                return;
+            }
             if(!response.ok) {
                 throw new Error('Failed to fetch tasks.');
             }
@@ -21,7 +30,7 @@ export function useTasks(userId: string | null) {
         } catch (error) {
             console.error('[useTasks] Error fetching tasks:', error);
         }
-    }, [userId, setTasks]);
+    }, [userId, authToken, setTasks]);
 
     useEffect(() => {
         fetchTasks();
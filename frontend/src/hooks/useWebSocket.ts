@@ -1,18 +1,19 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { WSMessage, WSMessageType, ConnectionStatus } from "../types/index";
+import { decodeServerMessage, encodeClientMessage } from "../types/index";
+import type { ServerMessage, SendMessage, ConnectionStatus } from "../types/index";
 
 interface UseWebSocketOptions {
     url?: string;
     autoReconnect?: boolean;
     reconnectDelay?: number;
     maxReconnectAttempts?: number;
-    onMessage?: (message: WSMessage) => void;
+    onMessage?: (message: ServerMessage) => void;
     onOpen?: () => void;
     onClose?: () => void;
     onError?: (error: Event) => void;
 }
 
-export function useWebSocket(userId: string | null, options: UseWebSocketOptions = {}) {
+export function useWebSocket(authToken: string | null, options: UseWebSocketOptions = {}) {
     const {
         url = 'ws://localhost:8787/ws',
         autoReconnect = true,
@@ -27,21 +28,16 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
     // websocket interface ref
     const wsRef = useRef<WebSocket | null>(null);
     const [status, setStatus] = useState<ConnectionStatus>('disconnected');
-    const [lastMessage, setLastMessage] = useState<WSMessage | null>(null);
+    const [lastMessage, setLastMessage] = useState<ServerMessage | null>(null);
 
     const reconnectAttemptsRef = useRef(0);
     const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     const shouldReconnectRef = useRef(true);
 
-    const sendMessage = useCallback((type: WSMessageType, payload: any) => {
+    const sendMessage: SendMessage = useCallback((type, payload) => {
       if (wsRef.current?.readyState === WebSocket.OPEN) {
-        const message: WSMessage = {
-          type,
-          payload,
-          timestamp: Date.now(),
-        };
-        wsRef.current.send(JSON.stringify(message));
+        wsRef.current.send(encodeClientMessage(type, payload));
         return true;
       } else {
         console.warn('[WebSocket] Cannot send message - connection not open');
@@ -51,8 +47,8 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
 
     const connect = useCallback(() => {
    
-      if (!userId) {
-        console.warn('[WebSocket] Cannot connect - no userId provided');
+      if (!authToken) {
+        console.warn('[WebSocket] Cannot connect - no session token');
         return;
       }
 
@@ -66,8 +62,9 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
         setStatus('connecting');
 
         
-        const wsUrl = `${url}?userId=${encodeURIComponent(userId)}`;
-        console.log('[WebSocket] Connecting to:', wsUrl);
+        // Browsers can't set headers on the upgrade request, so the token goes in the query
+        const wsUrl = `${url}?token=${encodeURIComponent(authToken)}`;
+        console.log('[WebSocket] Connecting to:', url);
 
         const ws = new WebSocket(wsUrl);
         wsRef.current = ws;
@@ -82,14 +79,16 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
 
        
         ws.onmessage = (event) => {
-          try {
-            const message: WSMessage = JSON.parse(event.data);
-            console.log('[WebSocket] Received:', message.type);
-            setLastMessage(message);
-            onMessage?.(message);
-          } catch (error) {
-            console.error('[WebSocket] Failed to parse message:', error);
+          // Frames that don't match the shared protocol are dropped rather than half-handled
+          const decoded = decodeServerMessage(event.data);
+          if (!decoded.success) {
+            console.error(`[WebSocket] Invalid message (${decoded.code}): ${decoded.error}`, decoded.details);
+            return;
           }
+
+          console.log('[WebSocket] Received:', decoded.message.type);
+          setLastMessage(decoded.message);
+          onMessage?.(decoded.message);
         };
 
        
@@ -129,7 +128,7 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
         console.error('[WebSocket] Failed to connect:', error);
         setStatus('error');
       }
-    }, [userId, url, autoReconnect, reconnectDelay, maxReconnectAttempts, onMessage, onOpen, onClose, onError]);
+    }, [authToken, url, autoReconnect, reconnectDelay, maxReconnectAttempts, onMessage, onOpen, onClose, onError]);
 
     // Disconnect websocket
     const disconnect = useCallback(() => {
@@ -161,9 +160,9 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
       setTimeout(() => connect(), 100);
     }, [connect, disconnect]);
 
-    // Connect on mount and when userId changes
+    // Connect on mount and when the session changes
     useEffect(() => {
-      if (userId) {
+      if (authToken) {
         shouldReconnectRef.current = true;
         connect();
       }
@@ -178,7 +177,7 @@ export function useWebSocket(userId: string | null, options: UseWebSocketOptions
           wsRef.current.close();
         }
       };
-    }, [userId, connect]);
+    }, [authToken, connect]);
 
     return {
       /** Current connection status */
@@ -4,21 +4,43 @@ import type {
     Task,
     PendingConfirmation,
     TaskFilter,
-    UserProfile
+    HistoryState,
+    Thread,
+    UserProfile,
+    Reminder
 } from '../types/index';
 
 interface AppState {
     userId: string | null;
+    authToken: string | null; // Session token sent on API calls and the WebSocket upgrade
     userProfile: UserProfile | null;
     setUserId: (userId: string | null) => void;
+    setSession: (authToken: string, userId: string) => void;
+    clearSession: () => void;
     setUserProfile: (profile: UserProfile | null) => void;
 
 
     messages: Message[];
     addMessage: (message: Message) => void;
+    appendMessageContent: (messageId: string, delta: string) => void;
+    updateMessage: (messageId: string, updates: Partial<Message>) => void;
+    removeMessage: (messageId: string) => void;
+    removeMessages: (messageIds: string[]) => void;
+    applyMessageEdit: (messageId: string, content: string) => void;
     clearMessages: () => void;
     setMessages: (messages: Message[]) => void;
 
+    threads: Thread[];
+    activeThreadId: string | null;
+    setThreads: (threads: Thread[], activeThreadId: string | null) => void;
+    upsertThread: (thread: Thread) => void;
+    setActiveThreadId: (threadId: string | null) => void;
+    enterThread: (thread: Thread | null) => void;
+
+    history: HistoryState;
+    setHistoryLoading: (loading: boolean) => void;
+    prependHistory: (messages: Message[], hasMore: boolean, cursor: string | null) => void;
+
 
     tasks: Task[];
     taskFilter: TaskFilter;
@@ -31,13 +53,23 @@ interface AppState {
 
     getFilteredTasks: () => Task[];
 
-    pendingConfirmation: PendingConfirmation | null;
-    setPendingConfirmation: (confirmation: PendingConfirmation | null) => void;
-    clearPendingConfirmation: () => void;
+    // Oldest first; the dialog always shows the head of the queue
+    pendingConfirmations: PendingConfirmation[];
+    enqueueConfirmation: (confirmation: PendingConfirmation) => void;
+    dequeueConfirmation: (requestId: string) => void;
+
+    // Task reminders shown as toasts until dismissed
+    reminders: Reminder[];
+    addReminder: (reminder: Reminder) => void;
+    dismissReminder: (reminderId: string) => void;
 
     isTyping: boolean;
     setIsTyping: (typing: boolean) => void;
 
+    // True while the server is producing a reply that can be stopped
+    isGenerating: boolean;
+    setIsGenerating: (generating: boolean) => void;
+
     error: string | null;
     setError: (error: string | null) => void;
 
@@ -50,10 +82,15 @@ interface AppState {
 export const useAppStore = create<AppState>(( set, get) => ({
 
     userId: null,
+    authToken: null,
     userProfile: null,
 
     setUserId: (userId) => set({ userId }),
 
+    setSession: (authToken, userId) => set({ authToken, userId }),
+
+    clearSession: () => set({ authToken: null, userId: null }),
+
     setUserProfile: (userProfile) => set({ userProfile }),
 
     messages: [],
@@ -62,10 +99,99 @@ export const useAppStore = create<AppState>(( set, get) => ({
       messages: [...state.messages, message],
     })),
 
+    // Append a streamed chunk, creating the assistant message on the first delta
+    appendMessageContent: (messageId, delta) => set((state) => {
+      const exists = state.messages.some((message) => message.id === messageId);
+
+      if (!exists) {
+        return {
+          messages: [...state.messages, {
+            id: messageId,
+            role: 'assistant',
+            content: delta,
+            timestamp: Date.now(),
+          }],
+        };
+      }
+
+      return {
+        messages: state.messages.map((message) =>
+          message.id === messageId ? { ...message, content: message.content + delta } : message
+        ),
+      };
+    }),
+
+    updateMessage: (messageId, updates) => set((state) => ({
+      messages: state.messages.map((message) =>
+        message.id === messageId ? { ...message, ...updates } : message
+      ),
+    })),
+
+    removeMessage: (messageId) => set((state) => ({
+      messages: state.messages.filter((message) => message.id !== messageId),
+    })),
+
+    removeMessages: (messageIds) => set((state) => ({
+      messages: state.messages.filter((message) => !messageIds.includes(message.id)),
+    })),
+
+    // Replace an edited message's text and drop everything shown after it
+    applyMessageEdit: (messageId, content) => set((state) => {
+      const index = state.messages.findIndex((message) => message.id === messageId);
+      if (index === -1) {
+        return {};
+      }
+
+      return {
+        messages: [...state.messages.slice(0, index), { ...state.messages[index], content }],
+      };
+    }),
+
     clearMessages: () => set({ messages: [] }),
 
     setMessages: (messages) => set({ messages }),
 
+    threads: [],
+    activeThreadId: null,
+
+    setThreads: (threads, activeThreadId) => set({ threads, activeThreadId }),
+
+    // Archived threads drop out of the list; everything else is added or replaced, newest first
+    upsertThread: (thread) => set((state) => {
+      const others = state.threads.filter((t) => t.id !== thread.id);
+      const threads = thread.archived ? others : [thread, ...others];
+      return { threads: threads.sort((a, b) => b.updatedAt - a.updatedAt) };
+    }),
+
+    setActiveThreadId: (activeThreadId) => set({ activeThreadId }),
+
+    // Show another thread: its messages are loaded again from the first page
+    enterThread: (thread) => {
+      if (thread) {
+        get().upsertThread(thread);
+      }
+      set({
+        activeThreadId: thread?.id ?? null,
+        messages: [],
+        history: { loaded: false, loading: false, hasMore: false, cursor: null },
+      });
+    },
+
+    history: { loaded: false, loading: false, hasMore: false, cursor: null },
+
+    setHistoryLoading: (loading) => set((state) => ({
+      history: { ...state.history, loading },
+    })),
+
+    // Older pages go in front of what is already shown; ids already present are skipped
+    prependHistory: (messages, hasMore, cursor) => set((state) => {
+      const existingIds = new Set(state.messages.map((m) => m.id));
+      return {
+        messages: [...messages.filter((m) => !existingIds.has(m.id)), ...state.messages],
+        history: { loaded: true, loading: false, hasMore, cursor },
+      };
+    }),
+
     tasks: [],
     taskFilter: 'all',
 
@@ -79,8 +205,9 @@ export const useAppStore = create<AppState>(( set, get) => ({
       ),
     })),
 
+    // Subtasks go with their parent, as they do in D1
     removeTask: (taskId) => set((state) => ({
-      tasks: state.tasks.filter((task) => task.id !== taskId),
+      tasks: state.tasks.filter((task) => task.id !== taskId && task.parentTaskId !== taskId),
     })),
 
     setTasks: (tasks) => set({ tasks }),
@@ -103,16 +230,41 @@ export const useAppStore = create<AppState>(( set, get) => ({
     },
 
     
-    pendingConfirmation: null,
-
-    setPendingConfirmation: (pendingConfirmation) => set({ pendingConfirmation }),
-
-    clearPendingConfirmation: () => set({ pendingConfirmation: null }),
+    pendingConfirmations: [],
+
+    enqueueConfirmation: (confirmation) =>
+      set((state) => ({
+        pendingConfirmations: state.pendingConfirmations.some((c) => c.requestId === confirmation.requestId)
+          ? state.pendingConfirmations
+          : [...state.pendingConfirmations, confirmation],
+      })),
+
+    dequeueConfirmation: (requestId) =>
+      set((state) => ({
+        pendingConfirmations: state.pendingConfirmations.filter((c) => c.requestId !== requestId),
+      })),
+
+    reminders: [],
+
+    addReminder: (reminder) =>
+      set((state) => ({
+        reminders: state.reminders.some((r) => r.id === reminder.id)
+          ? state.reminders
+          : [...state.reminders, reminder],
+      })),
+
+    dismissReminder: (reminderId) =>
+      set((state) => ({
+        reminders: state.reminders.filter((r) => r.id !== reminderId),
+      })),
 
    
     isTyping: false,
     setIsTyping: (isTyping) => set({ isTyping }),
 
+    isGenerating: false,
+    setIsGenerating: (isGenerating) => set({ isGenerating }),
+
     error: null,
     setError: (error) => set({ error }),
 
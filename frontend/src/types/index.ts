@@ -1,3 +1,10 @@
+import type {
+    ClientMessageType,
+    ClientPayloadInput,
+    Recurrence,
+    ServerPayload
+} from '../../../src/protocol/websocket';
+
 // Backend types
 
 export interface Message {
@@ -18,7 +25,33 @@ export interface Task {
     priority?: 'low' | 'medium' | 'high';
     createdAt: number;
     completedAt?: number;
-    
+    reminderOffsets?: number[]; // Minutes before the due date; unset uses the user's default
+    recurrence?: Recurrence; // Completing the task creates the next occurrence
+    parentTaskId?: string; // Set on subtasks created by decomposition
+    position?: number; // Order among the parent's subtasks
+}
+
+export interface Thread {
+    id: string;
+    userId: string;
+    title: string | null; // Generated after the first exchange unless set by the user
+    archived: boolean;
+    createdAt: number; // Unix seconds
+    updatedAt: number;
+}
+
+// GET /api/user/:userId/stats
+export interface TaskStats {
+    range: { days: number; from: number; to: number; timeZone: string }; // from/to in Unix seconds
+    created: number;
+    completed: number;
+    completionRate: number | null; // Share of the tasks created in the range that are done
+    overdue: number;
+    completedLate: number;
+    averageHoursToComplete: number | null;
+    byPriority: Record<'low' | 'medium' | 'high', { created: number; completed: number; overdue: number }>;
+    streak: { current: number; longest: number };
+    completedByDay: Array<{ date: string; completed: number }>;
 }
 
 export interface UserProfile {
@@ -30,91 +63,35 @@ export interface UserProfile {
   }
 
 
-// Websocket types
-
-export interface WSMessage {
-    type: WSMessageType;
-    payload: any;
-    timestamp: number;
-  }
-
-
-  export type WSMessageType =
-    | 'chat'
-    | 'chat_response'
-    | 'task'
-    | 'status'
-    | 'error'
-    | 'connected'
-    | 'confirmation_request'
-    | 'confirmation_response'
-    | 'tool_execution_result'
-    | 'create_task'
-    | 'list_tasks'
-    | 'complete_task'
-    | 'update_task'
-    | 'delete_task'
-    | 'ping';
-
-
-  export interface ChatPayload {
-    content: string;
-  }
-
-
-  export interface ChatResponsePayload {
-    content: string;
-    messageId: string;
-  }
+// Websocket types: the protocol module is shared with the worker, which validates the same schemas
 
- 
-  export interface ToolCall {
-    toolName: string;
-    parameters: Record<string, any>;
-    description?: string;
-  }
+export { decodeServerMessage, encodeClientMessage } from '../../../src/protocol/websocket';
+export type {
+    ClientMessageType,
+    ServerMessage,
+    ServerMessageType,
+    ServerPayload,
+    ErrorCode,
+    ParameterSchema,
+    Recurrence,
+    Reminder
+} from '../../../src/protocol/websocket';
 
+  export type SendMessage = <T extends ClientMessageType>(type: T, payload: ClientPayloadInput<T>) => boolean;
 
-  export interface ConfirmationRequestPayload {
-    requestId: string;
-    code: string; // JSON tool call
-    toolCalls: ToolCall[];
-    timeout: number;
-  }
 
-  
-  export interface ConfirmationResponsePayload {
-    requestId: string;
-    approved: boolean;
-    timestamp: number;
-  }
+  export type HistoryPayload = ServerPayload<'history'>;
 
- 
-  export interface ToolExecutionResultPayload {
-    requestId: string;
-    toolName: string;
-    success: boolean;
-    result?: any;
-    error?: string;
-  }
+  export type ThreadsListPayload = ServerPayload<'threads_list'>;
 
+  // thread_created, thread_switched and thread_updated
+  export type ThreadPayload = ServerPayload<'thread_updated'>;
 
-  export interface ErrorPayload {
-    message: string;
-    code?: string;
-  }
+  export type ToolExecutionResultPayload = ServerPayload<'tool_execution_result'>;
 
- 
-  export interface StatusPayload {
-    message: string;
-    type?: 'info' | 'warning' | 'success';
-  }
+  export type ToolCall = ServerPayload<'confirmation_request'>['toolCalls'][number];
 
- 
-  export interface ConnectedPayload {
-    userId: string;
-    message: string;
-  }
+  export type ToolRiskLevel = NonNullable<ToolCall['riskLevel']>;
 
 // Frontend types
 
@@ -136,6 +113,16 @@ export interface WSMessage {
   export type TaskFilter = 'all' | 'pending' | 'completed';
 
 
+  export interface HistoryState {
+    loaded: boolean; // First page received
+    loading: boolean;
+    hasMore: boolean;
+    cursor: string | null; // Oldest stored message loaded so far
+  }
+
+  export const HISTORY_PAGE_SIZE = 30;
+
+
   export const PRIORITY_COLORS: Record<Task['priority'] & string, string> = {
     low: 'text-blue-600 bg-blue-50',
     medium: 'text-yellow-600 bg-yellow-50',
@@ -143,6 +130,13 @@ export interface WSMessage {
   };
 
 
+  export const RISK_COLORS: Record<ToolRiskLevel, string> = {
+    read: 'text-green-700 bg-green-50',
+    write: 'text-yellow-700 bg-yellow-50',
+    'external-send': 'text-red-700 bg-red-50',
+  };
+
+
   export const ROLE_COLORS: Record<Message['role'], string> = {
     user: 'bg-blue-100 text-blue-900',
     assistant: 'bg-gray-100 text-gray-900',
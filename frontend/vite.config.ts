@@ -9,6 +9,8 @@ import { defineConfig } from 'vite'
       alias: {
         "@": path.resolve(__dirname, "./src"),
       },
+      // The shared protocol module (../src/protocol) imports zod; use this package's copy, not the worker's
+      dedupe: ['zod'],
     },
     build: {
       outDir: 'dist',
@@ -16,6 +18,10 @@ import { defineConfig } from 'vite'
     },
     server: {
       port: 5173,
+      // Allow serving the WebSocket protocol module shared with the worker (../src/protocol)
+      fs: {
+        allow: ['..'],
+      },
       proxy: {
         '/api': {
           target: 'http://localhost:8787',
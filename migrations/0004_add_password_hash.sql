@@ -0,0 +1,5 @@
+-- Migration 0004: Password Credentials for Session Login
+-- Date: 2026-10-19
+-- Purpose: Store an optional PBKDF2 password hash so users can log in for a new session token
+
+ALTER TABLE users ADD COLUMN password_hash TEXT; -- pbkdf2$<iterations>$<salt>$<hash>, NULL for token-only users
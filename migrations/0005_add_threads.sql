@@ -0,0 +1,28 @@
+-- Migration 0005: Conversation Threads
+-- Date: 2026-10-19
+-- Purpose: Split each user's conversation into titled threads so unrelated topics get separate context
+
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE IF NOT EXISTS threads (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  title TEXT, -- NULL until generated from the first exchange or set by the user
+  archived INTEGER DEFAULT 0, -- Boolean: 0 or 1
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()), -- Last message or change
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+ALTER TABLE conversations ADD COLUMN thread_id TEXT REFERENCES threads(id) ON DELETE CASCADE;
+
+-- Move existing history into one thread per user
+INSERT INTO threads (id, user_id, title, archived, created_at, updated_at)
+SELECT 'legacy-' || user_id, user_id, 'Earlier conversation', 0, MIN(timestamp), MAX(timestamp)
+FROM conversations
+GROUP BY user_id;
+
+UPDATE conversations SET thread_id = 'legacy-' || user_id WHERE thread_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_threads_user_updated ON threads(user_id, archived, updated_at);
+CREATE INDEX IF NOT EXISTS idx_conversations_thread_timestamp ON conversations(thread_id, timestamp);
@@ -0,0 +1,5 @@
+-- Migration 0006: Task Reminder Workflow Ids
+-- Date: 2026-10-19
+-- Purpose: Remember each task's reminder workflow instance so it can be terminated or rescheduled
+
+ALTER TABLE tasks ADD COLUMN reminder_workflow_id TEXT; -- TASK_WORKFLOW instance id, NULL when no reminder is pending
@@ -0,0 +1,5 @@
+-- Migration 0007: Configurable Task Reminders
+-- Date: 2026-10-19
+-- Purpose: Let each task choose when it is reminded; users.preferences.reminderOffsets holds the default
+
+ALTER TABLE tasks ADD COLUMN reminder_offsets TEXT; -- JSON array of minutes before due_date, NULL uses the user's default
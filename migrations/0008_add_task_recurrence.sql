@@ -0,0 +1,5 @@
+-- Migration 0008: Recurring Tasks
+-- Date: 2026-10-19
+-- Purpose: Let a task repeat; completing one occurrence creates the next
+
+ALTER TABLE tasks ADD COLUMN recurrence TEXT; -- RRULE subset, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE; NULL for one-off tasks
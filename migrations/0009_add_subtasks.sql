@@ -0,0 +1,10 @@
+-- Migration 0009: Subtasks
+-- Date: 2026-10-19
+-- Purpose: Let a task be decomposed into ordered subtasks that are deleted along with it
+
+PRAGMA foreign_keys = ON;
+
+ALTER TABLE tasks ADD COLUMN parent_task_id TEXT REFERENCES tasks(id) ON DELETE CASCADE; -- NULL for top-level tasks
+ALTER TABLE tasks ADD COLUMN position INTEGER; -- Order among the parent's subtasks, NULL for top-level tasks
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_position ON tasks(parent_task_id, position);
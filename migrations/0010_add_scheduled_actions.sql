@@ -0,0 +1,21 @@
+-- Migration 0010: Scheduled Actions
+-- Date: 2026-10-19
+-- Purpose: Store approved tool calls that TaskWorkflow runs at a later time
+
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE IF NOT EXISTS scheduled_actions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  params TEXT NOT NULL, -- JSON tool parameters, validated again when the action runs
+  run_at INTEGER NOT NULL, -- Unix timestamp
+  status TEXT DEFAULT 'pending', -- pending, running, succeeded, failed
+  workflow_id TEXT, -- TASK_WORKFLOW instance that runs it
+  result TEXT, -- JSON { success, output, error } once run
+  created_at INTEGER DEFAULT (unixepoch()),
+  executed_at INTEGER,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_actions_user_status ON scheduled_actions(user_id, status, run_at);
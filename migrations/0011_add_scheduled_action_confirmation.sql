@@ -0,0 +1,5 @@
+-- Migration 0011: Scheduled Action Confirmation
+-- Date: 2026-10-19
+-- Purpose: Remember whether the user confirmed a scheduled call, so it cannot skip an `ask` policy
+
+ALTER TABLE scheduled_actions ADD COLUMN confirmed INTEGER DEFAULT 0; -- 1 when approved in a confirmation dialog
@@ -0,0 +1,12 @@
+-- Migration 0012: Reminder Threads
+-- Date: 2026-10-19
+-- Purpose: File reminder messages stored without a thread under the user's most recently active thread
+
+UPDATE conversations
+SET thread_id = (
+  SELECT t.id FROM threads t
+  WHERE t.user_id = conversations.user_id AND t.archived = 0
+  ORDER BY t.updated_at DESC
+  LIMIT 1
+)
+WHERE thread_id IS NULL AND json_extract(metadata, '$.type') = 'task_reminder';
@@ -4,6 +4,7 @@ CREATE TABLE IF NOT EXISTS users (
   name TEXT,
   timezone TEXT DEFAULT 'UTC',
   preferences TEXT, -- JSON blob for user preferences
+  password_hash TEXT, -- PBKDF2 hash, NULL for token-only users
   created_at INTEGER DEFAULT (unixepoch()),
   updated_at INTEGER DEFAULT (unixepoch())
 );
@@ -19,6 +20,23 @@ CREATE TABLE IF NOT EXISTS tasks (
   priority TEXT DEFAULT 'medium', -- low, medium, high
   created_at INTEGER DEFAULT (unixepoch()),
   completed_at INTEGER,
+  reminder_offsets TEXT, -- JSON array of minutes before due_date, NULL uses the user's default
+  recurrence TEXT, -- RRULE subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT), NULL for one-off tasks
+  reminder_workflow_id TEXT, -- Pending TASK_WORKFLOW reminder instance, if any
+  parent_task_id TEXT, -- Set on subtasks created by decomposition
+  position INTEGER, -- Order among the parent's subtasks
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (parent_task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+-- Conversation threads, each with its own context window
+CREATE TABLE IF NOT EXISTS threads (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  title TEXT, -- NULL until generated from the first exchange or set by the user
+  archived INTEGER DEFAULT 0, -- Boolean: 0 or 1
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()), -- Last message or change
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
@@ -26,11 +44,13 @@ CREATE TABLE IF NOT EXISTS tasks (
 CREATE TABLE IF NOT EXISTS conversations (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL,
+  thread_id TEXT,
   role TEXT NOT NULL, -- 'user' or 'assistant'
   content TEXT NOT NULL,
   timestamp INTEGER DEFAULT (unixepoch()),
   metadata TEXT, -- JSON blob for additional context
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (thread_id) REFERENCES threads(id) ON DELETE CASCADE
 );
 
 -- Knowledge base entries for RAG
@@ -39,8 +59,24 @@ CREATE TABLE IF NOT EXISTS knowledge_entries (
   user_id TEXT NOT NULL,
   title TEXT,
   content TEXT NOT NULL,
-  vector_id TEXT, -- Reference to Vectorize index
+  vector_id TEXT, -- JSON array of Vectorize ids, one per embedded chunk
+  created_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Tool calls approved now and run later by TaskWorkflow
+CREATE TABLE IF NOT EXISTS scheduled_actions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  params TEXT NOT NULL, -- JSON tool parameters, validated again when the action runs
+  run_at INTEGER NOT NULL, -- Unix timestamp
+  status TEXT DEFAULT 'pending', -- pending, running, succeeded, failed
+  workflow_id TEXT, -- TASK_WORKFLOW instance that runs it
+  result TEXT, -- JSON { success, output, error } once run
+  confirmed INTEGER DEFAULT 0, -- 1 when the user approved the call in a confirmation dialog
   created_at INTEGER DEFAULT (unixepoch()),
+  executed_at INTEGER,
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
@@ -49,8 +85,12 @@ CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON tasks(user_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
 CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
 CREATE INDEX IF NOT EXISTS idx_conversations_timestamp ON conversations(timestamp);
+CREATE INDEX IF NOT EXISTS idx_conversations_thread_timestamp ON conversations(thread_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_threads_user_updated ON threads(user_id, archived, updated_at);
 CREATE INDEX IF NOT EXISTS idx_knowledge_user_id ON knowledge_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_actions_user_status ON scheduled_actions(user_id, status, run_at);
 
 -- Composite indexes for optimized queries
 CREATE INDEX IF NOT EXISTS idx_tasks_id_user_id ON tasks(id, user_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_user_completed_due ON tasks(user_id, completed, due_date);
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_position ON tasks(parent_task_id, position);
@@ -1,20 +1,83 @@
 import { DurableObject } from 'cloudflare:workers';
 import { Env, AgentState, Message, Task, TaskWorkflowParams } from '../types/env';
 import { VectorizeManager } from './vectorize';
-import { MemoryManager, DEFAULT_SYSTEM_PROMPT, memoryManager } from './memory';
-
-import { ConfirmationHandler, createConfirmationHandler } from '../mcp/ConfirmationHandler';
-import { generateToolDocs } from '../mcp/CodeModeAPI';
-import { getTool } from '../mcp/tools/index';
-import { ToolContext } from '../types/tools';
+import { loadConversationPage, toDisplayMessages } from './history';
+import { ThreadManager, Thread, MAX_THREAD_TITLE_LENGTH } from './threads';
+import { normalizeReminderOffsets, parseDefaultReminderOffsets } from './reminders';
+import { anchorRecurrence, nextOccurrence, toRRule } from './recurrence';
+import { CreateSubtasksRequest, createSubtasksRequestSchema } from './decomposition';
+import { MAX_SCHEDULE_AHEAD_SECONDS, ScheduledActionRow, runScheduledActionRequestSchema } from './scheduling';
+import { briefingToolRequestSchema, deliverBriefingRequestSchema } from './briefing';
+import { toTask } from './tasks';
+import { MemoryManager, DEFAULT_SYSTEM_PROMPT, NATIVE_TOOLS_SYSTEM_PROMPT, ConversationSummary, MemoryOptions, memoryManager } from './memory';
+
+import { ConfirmationHandler, createConfirmationHandler, isToolCallApproved } from '../mcp/ConfirmationHandler';
+import { ALL_TOOLS, getTool } from '../mcp/tools/index';
+import { scheduleActionTool } from '../mcp/tools/ScheduleTool';
+import { toFunctionTool } from '../mcp/ZodSchema';
+import { ToolDocumentation } from '../mcp/CodeModeAPI';
+import { parseToolPolicies, resolveToolPolicy, mergeToolPolicies, stricterToolPolicy } from '../mcp/ToolPolicy';
+import {
+  ClientPayload,
+  ServerMessageType,
+  ServerPayloadInput,
+  ErrorCode,
+  Recurrence,
+  Reminder,
+  reminderSchema,
+  decodeClientMessage,
+  encodeServerMessage,
+} from '../protocol/websocket';
+import { ToolContext, ToolDefinition, ToolPolicy, ToolCallSummary, StoredConfirmation, ConfirmationResponse } from '../types/tools';
 
 
 interface WebSocketSession {
   webSocket: WebSocket;
   userId: string;
+  sessionId: string; // Sent as `origin` on broadcasts this connection caused
   connectedAt: number;
 }
 
+interface ToolCall {
+  tool: string;
+  params: any;
+}
+
+interface LLMResult {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+// Context window shared by the plain and RAG prompts
+const CONTEXT_OPTIONS: MemoryOptions = {
+  maxTokens: 3500,
+  maxMessages: 50,
+};
+
+// Each thread keeps its own rolling summary
+const SUMMARY_STORAGE_PREFIX = 'conversation_summary:';
+
+// Evicted messages are folded into the summary in batches rather than on every turn
+const SUMMARY_BATCH_SIZE = 4;
+
+// Reminders that arrived while no session was open, delivered on the next connect
+const PENDING_REMINDERS_KEY = 'pending_reminders';
+const MAX_PENDING_REMINDERS = 50;
+
+// Thrown through the agent loop when the user stops the reply being generated
+class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new GenerationCancelledError();
+  }
+}
+
 interface RateLimitState {
   weatherCalls: number[];  // Timestamps of weather API calls
   emailSends: number[];    // Timestamps of email sends
@@ -25,13 +88,18 @@ export class PersonalAssistant extends DurableObject<Env> {
   private state: AgentState;
   private userId: string;
   private vectorize: VectorizeManager;
+  private threads: ThreadManager;
   private confirmationHandler: ConfirmationHandler;
   private rateLimits: Map<string, RateLimitState>; // userId -> rate limit state
+  private conversationSummary: ConversationSummary | null = null;
+  private summaryRefresh: Promise<void> | null = null; // In-flight summary update, if any
+  private generation: AbortController | null = null; // Agent loop currently producing a reply, if any
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     this.vectorize = new VectorizeManager(env);
-    this.confirmationHandler = createConfirmationHandler(60000);
+    this.threads = new ThreadManager(env);
+    this.confirmationHandler = createConfirmationHandler(60000, ctx.storage);
 
     this.sessions = new Map();
     this.rateLimits = new Map();
@@ -39,6 +107,7 @@ export class PersonalAssistant extends DurableObject<Env> {
     this.state = {
       userId: '',
       conversationHistory: [],
+      activeThreadId: null,
       activeWebSockets: 0,
       lastActivity: Date.now(),
     };
@@ -66,6 +135,29 @@ export class PersonalAssistant extends DurableObject<Env> {
       });
     }
 
+    // Called by TaskWorkflow when a task reminder is due
+    if (url.pathname === '/reminder' && request.method === 'POST') {
+      return this.handleReminder(request);
+    }
+
+    // Called by TaskWorkflow with the subtasks of a decomposed task
+    if (url.pathname === '/subtasks' && request.method === 'POST') {
+      return this.handleCreateSubtasks(request);
+    }
+
+    // Called by TaskWorkflow when a scheduled action is due
+    if (url.pathname === '/scheduled-action' && request.method === 'POST') {
+      return this.handleRunScheduledAction(request);
+    }
+
+    // Called by TaskWorkflow to deliver a daily briefing and run the tools it uses
+    if (url.pathname === '/briefing' && request.method === 'POST') {
+      return this.handleDeliverBriefing(request);
+    }
+    if (url.pathname === '/briefing/tool' && request.method === 'POST') {
+      return this.handleBriefingTool(request);
+    }
+
     return new Response('Not found', { status: 404 });
   }
 
@@ -107,6 +199,7 @@ export class PersonalAssistant extends DurableObject<Env> {
     // Serialize session metadata for hibernation recovery
     const sessionMetadata = {
       userId: canonicalUserId,
+      sessionId: crypto.randomUUID(),
       connectedAt: Date.now(),
     };
     (server as any).serializeAttachment?.(sessionMetadata);
@@ -114,8 +207,7 @@ export class PersonalAssistant extends DurableObject<Env> {
     
     const session: WebSocketSession = {
       webSocket: server,
-      userId: canonicalUserId,
-      connectedAt: Date.now(),
+      ...sessionMetadata,
     };
     this.sessions.set(server, session);
     this.userId = canonicalUserId;
@@ -124,12 +216,13 @@ export class PersonalAssistant extends DurableObject<Env> {
     await this.saveState();
 
     // Send welcome message
-    server.send(JSON.stringify({
-      type: 'connected',
+    this.send(server, 'connected', {
       userId: canonicalUserId,
+      sessionId: session.sessionId,
       message: 'Connected to Personal Assistant',
-      timestamp: Date.now(),
-    }));
+    });
+
+    await this.deliverPendingReminders(server);
 
     
     return new Response(null, {
@@ -156,12 +249,14 @@ export class PersonalAssistant extends DurableObject<Env> {
           // Proceed with recovery
           const tags = (ws as any).tags || [];
           let userId = tags[0];
+          let sessionId: string = crypto.randomUUID();
           let connectedAt = Date.now();
 
           try {
             const attachment = (ws as any).deserializeAttachment?.();
             if (attachment) {
               userId = attachment.userId || userId;
+              sessionId = attachment.sessionId || sessionId;
               connectedAt = attachment.connectedAt || connectedAt;
             }
           } catch (e) {
@@ -173,6 +268,7 @@ export class PersonalAssistant extends DurableObject<Env> {
             session = {
               webSocket: ws,
               userId: userId,
+              sessionId: sessionId,
               connectedAt: connectedAt,
             };
             this.sessions.set(ws, session);
@@ -181,41 +277,42 @@ export class PersonalAssistant extends DurableObject<Env> {
           } else {
             // Cannot recover
             console.error('Session not found and cannot recover - no userId available');
-            ws.send(JSON.stringify({
-              error: 'Session lost',
-              message: 'Please reconnect to restore your session',
-            }));
+            this.sendError(ws, 'session_lost', 'Session lost', 'Please reconnect to restore your session');
             return;
           }
         }
       }
 
-     
-      const data = typeof message === 'string' ? JSON.parse(message) : null;
+      // Envelope, version and payload are all checked against the shared protocol schemas
+      const decoded = decodeClientMessage(typeof message === 'string' ? message : null);
 
-      if (!data) {
-        ws.send(JSON.stringify({ error: 'Invalid message format' }));
+      if (!decoded.success) {
+        console.warn(`[PersonalAssistant] Rejected message (${decoded.code}): ${decoded.error}`);
+        this.sendError(ws, decoded.code, decoded.error, decoded.details);
         return;
       }
 
-
-      const payload = (data && typeof data.payload === 'object' && data.payload !== null)
-        ? data.payload
-        : data;
+      const data = decoded.message;
 
       switch (data.type) {
-        case 'chat': {
-          const content = payload?.content;
-          if (typeof content !== 'string' || !content.trim()) {
-            ws.send(JSON.stringify({ error: 'Chat message content is required' }));
-            return;
-          }
-          await this.handleChatMessage(ws, session, content);
+        case 'chat':
+          await this.handleChatMessage(ws, session, data.payload);
+          break;
+
+        case 'cancel_generation':
+          this.handleCancelGeneration(ws);
+          break;
+
+        case 'regenerate':
+          await this.handleRegenerate(ws, session);
+          break;
+
+        case 'edit_message':
+          await this.handleEditMessage(ws, session, data.payload);
           break;
-        }
 
         case 'create_task':
-          await this.handleCreateTask(ws, session, payload);
+          await this.handleCreateTask(ws, session, data.payload);
           break;
 
         case 'list_tasks':
@@ -223,27 +320,48 @@ export class PersonalAssistant extends DurableObject<Env> {
           break;
 
         case 'complete_task':
-          await this.handleCompleteTask(ws, session, payload.taskId);
+          await this.handleCompleteTask(ws, session, data.payload.taskId);
           break;
 
         case 'update_task':
-          await this.handleUpdateTask(ws, session, payload);
+          await this.handleUpdateTask(ws, session, data.payload);
           break;
 
         case 'delete_task':
-          await this.handleDeleteTask(ws, session, payload.taskId);
+          await this.handleDeleteTask(ws, session, data.payload.taskId);
           break;
 
         case 'ping':
-          ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+          this.send(ws, 'pong', {});
           break;
         
         case 'confirmation_response':
-          await this.handleConfirmationResponse(ws, session, payload);
+          await this.handleConfirmationResponse(ws, session, data.payload);
+          break;
+
+        case 'history':
+          await this.handleHistoryRequest(ws, session, data.payload);
+          break;
+
+        case 'thread_list':
+          await this.handleThreadList(ws, session, data.payload);
+          break;
+
+        case 'thread_create':
+          await this.handleThreadCreate(ws, session, data.payload);
+          break;
+
+        case 'thread_switch':
+          await this.handleThreadSwitch(ws, session, data.payload);
+          break;
+
+        case 'thread_rename':
+          await this.handleThreadRename(ws, session, data.payload);
           break;
 
-        default:
-          ws.send(JSON.stringify({ error: 'Unknown message type' }));
+        case 'thread_archive':
+          await this.handleThreadArchive(ws, session, data.payload);
+          break;
       }
 
       
@@ -252,10 +370,7 @@ export class PersonalAssistant extends DurableObject<Env> {
 
     } catch (error) {
       console.error('Error handling WebSocket message:', error);
-      ws.send(JSON.stringify({
-        error: 'Internal error processing message',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }));
+      this.sendError(ws, 'internal_error', 'Internal error processing message', error);
     }
   }
 
@@ -326,13 +441,21 @@ export class PersonalAssistant extends DurableObject<Env> {
     title: string,
     description?: string,
     dueDate?: number,
-    priority: 'low' | 'medium' | 'high' = 'medium'
+    priority: 'low' | 'medium' | 'high' = 'medium',
+    reminderOffsets?: number[],
+    recurrence?: Recurrence
   ): Promise<Task> {
+    if (recurrence && !dueDate) {
+      throw new Error('A recurring task needs a due date');
+    }
+
     const taskId = crypto.randomUUID();
     const now = Math.floor(Date.now() / 1000);
+    const offsets = reminderOffsets ? normalizeReminderOffsets(reminderOffsets) : undefined;
+    const rule = recurrence && dueDate ? anchorRecurrence(recurrence, dueDate) : undefined;
 
     await this.env.DB.prepare(
-      'INSERT INTO tasks (id, user_id, title, description, due_date, priority, completed, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      'INSERT INTO tasks (id, user_id, title, description, due_date, priority, completed, created_at, reminder_offsets, recurrence) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
     ).bind(
       taskId,
       userId,
@@ -341,10 +464,12 @@ export class PersonalAssistant extends DurableObject<Env> {
       dueDate || null,
       priority,
       0,
-      now
+      now,
+      offsets ? JSON.stringify(offsets) : null,
+      rule ? toRRule(rule) : null
     ).run();
 
-    return {
+    const task: Task = {
       id: taskId,
       userId,
       title,
@@ -353,7 +478,13 @@ export class PersonalAssistant extends DurableObject<Env> {
       completed: false,
       priority,
       createdAt: now,
+      reminderOffsets: offsets,
+      recurrence: rule,
     };
+
+    await this.scheduleReminder(task);
+
+    return task;
   }
 
   // Get a single task by ID
@@ -366,7 +497,7 @@ export class PersonalAssistant extends DurableObject<Env> {
       return null;
     }
 
-    return this.mapDbTaskToTask(result);
+    return toTask(result);
   }
 
   // List all tasks for a user
@@ -383,7 +514,7 @@ export class PersonalAssistant extends DurableObject<Env> {
 
     const result = await this.env.DB.prepare(query).bind(...params).all();
 
-    return (result.results || []).map(row => this.mapDbTaskToTask(row));
+    return (result.results || []).map(toTask);
   }
 
   // Update task fields
@@ -395,6 +526,8 @@ export class PersonalAssistant extends DurableObject<Env> {
       description?: string;
       dueDate?: number;
       priority?: 'low' | 'medium' | 'high';
+      reminderOffsets?: number[] | null; // null clears them, falling back to the user's default
+      recurrence?: Recurrence | null; // null ends the series with this occurrence
     }
   ): Promise<Task> {
   
@@ -403,6 +536,12 @@ export class PersonalAssistant extends DurableObject<Env> {
       throw new Error('Task not found');
     }
 
+    const dueDate = updates.dueDate ?? existing.dueDate;
+    const recurrence = updates.recurrence !== undefined ? updates.recurrence : existing.recurrence;
+    if (recurrence && !dueDate) {
+      throw new Error('A recurring task needs a due date');
+    }
+
     const fields: string[] = [];
     const values: any[] = [];
 
@@ -422,6 +561,15 @@ export class PersonalAssistant extends DurableObject<Env> {
       fields.push('priority = ?');
       values.push(updates.priority);
     }
+    if (updates.reminderOffsets !== undefined) {
+      fields.push('reminder_offsets = ?');
+      values.push(updates.reminderOffsets ? JSON.stringify(normalizeReminderOffsets(updates.reminderOffsets)) : null);
+    }
+    if (updates.recurrence !== undefined || (recurrence && updates.dueDate !== undefined)) {
+      // A new due date moves a monthly series to its day of the month
+      fields.push('recurrence = ?');
+      values.push(recurrence && dueDate ? toRRule(anchorRecurrence({ ...recurrence, byMonthDay: updates.recurrence?.byMonthDay }, dueDate)) : null);
+    }
 
     if (fields.length > 0) {
       values.push(taskId, userId);
@@ -436,11 +584,20 @@ export class PersonalAssistant extends DurableObject<Env> {
       throw new Error('Failed to fetch updated task');
     }
 
+    // The running reminder sleeps until the old reminder times, so replace it
+    const rescheduled = updated.dueDate !== existing.dueDate ||
+      JSON.stringify(updated.reminderOffsets) !== JSON.stringify(existing.reminderOffsets);
+    if (rescheduled && !updated.completed) {
+      await this.cancelReminder(userId, taskId);
+      await this.scheduleReminder(updated);
+    }
+
     return updated;
   }
 
   // Mark task as completed
-  private async completeTask(userId: string, taskId: string): Promise<Task> {
+  // A recurring task also gets its next occurrence created, returned as `nextOccurrence`
+  private async completeTask(userId: string, taskId: string): Promise<{ task: Task; nextOccurrence: Task | null }> {
    
     const existing = await this.getTask(userId, taskId);
     if (!existing) {
@@ -449,6 +606,8 @@ export class PersonalAssistant extends DurableObject<Env> {
 
     const completedAt = Math.floor(Date.now() / 1000);
 
+    await this.cancelReminder(userId, taskId);
+
     await this.env.DB.prepare(
       'UPDATE tasks SET completed = ?, completed_at = ? WHERE id = ? AND user_id = ?'
     ).bind(1, completedAt, taskId, userId).run();
@@ -459,7 +618,28 @@ export class PersonalAssistant extends DurableObject<Env> {
       throw new Error('Failed to fetch completed task');
     }
 
-    return updated;
+    // Completing it again must not start a second copy of the series
+    const next = !existing.completed && existing.recurrence && existing.dueDate
+      ? nextOccurrence(existing.recurrence, existing.dueDate)
+      : null;
+
+    const nextTask = next
+      ? await this.createTask(
+          userId,
+          existing.title,
+          existing.description,
+          next.dueDate,
+          existing.priority,
+          existing.reminderOffsets,
+          next.recurrence
+        )
+      : null;
+
+    if (nextTask) {
+      console.log(`[PersonalAssistant] Created next occurrence ${nextTask.id} of recurring task ${taskId}`);
+    }
+
+    return { task: updated, nextOccurrence: nextTask };
   }
 
   // Delete a task
@@ -470,24 +650,194 @@ export class PersonalAssistant extends DurableObject<Env> {
       throw new Error('Task not found');
     }
 
+    // Subtasks are removed by ON DELETE CASCADE, but their reminder workflows are not
+    for (const subtask of await this.listSubtasks(userId, taskId)) {
+      await this.cancelReminder(userId, subtask.id);
+    }
+    await this.cancelReminder(userId, taskId);
+
     await this.env.DB.prepare(
       'DELETE FROM tasks WHERE id = ? AND user_id = ?'
     ).bind(taskId, userId).run();
   }
 
-  // Helper to map DB row to Task interface
-  private mapDbTaskToTask(row: any): Task {
-    return {
-      id: row.id as string,
-      userId: row.user_id as string,
-      title: row.title as string,
-      description: row.description as string | undefined,
-      dueDate: row.due_date as number | undefined,
-      completed: Boolean(row.completed),
-      priority: (row.priority as 'low' | 'medium' | 'high') || 'medium',
-      createdAt: row.created_at as number,
-      completedAt: row.completed_at as number | undefined,
+  // Subtasks of a task, in order
+  private async listSubtasks(userId: string, parentTaskId: string): Promise<Task[]> {
+    const result = await this.env.DB.prepare(
+      'SELECT * FROM tasks WHERE user_id = ? AND parent_task_id = ? ORDER BY position ASC'
+    ).bind(userId, parentTaskId).all();
+
+    return (result.results || []).map(toTask);
+  }
+
+  // Store the subtasks a decompose workflow produced, each with its own reminders
+  // A retried request finds the subtasks already there and creates nothing
+  private async createSubtasks(
+    userId: string,
+    parentTaskId: string,
+    subtasks: CreateSubtasksRequest['subtasks']
+  ): Promise<{ subtasks: Task[]; created: boolean }> {
+    const parent = await this.getTask(userId, parentTaskId);
+    if (!parent) {
+      throw new Error('Task not found');
+    }
+
+    const existing = await this.listSubtasks(userId, parentTaskId);
+    if (existing.length > 0) {
+      return { subtasks: existing, created: false };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const created: Task[] = subtasks.map((subtask, position) => ({
+      id: crypto.randomUUID(),
+      userId,
+      title: subtask.title,
+      description: subtask.description,
+      dueDate: subtask.dueDate,
+      completed: false,
+      priority: parent.priority,
+      createdAt: now,
+      parentTaskId,
+      position,
+    }));
+
+    await this.env.DB.batch(created.map(task =>
+      this.env.DB.prepare(
+        'INSERT INTO tasks (id, user_id, title, description, due_date, priority, completed, created_at, parent_task_id, position) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(
+        task.id,
+        userId,
+        task.title,
+        task.description || null,
+        task.dueDate || null,
+        task.priority,
+        0,
+        now,
+        parentTaskId,
+        task.position
+      )
+    ));
+
+    for (const task of created) {
+      await this.scheduleReminder(task);
+    }
+
+    return { subtasks: created, created: true };
+  }
+
+  // Start a workflow that splits the task into subtasks; they reach clients as task_created once stored
+  private async startDecomposition(userId: string, taskId: string): Promise<string> {
+    const task = await this.getTask(userId, taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+    if (task.completed) {
+      throw new Error('Task is already completed');
+    }
+    if (task.parentTaskId) {
+      throw new Error('Subtasks cannot be decomposed further');
+    }
+    if ((await this.listSubtasks(userId, taskId)).length > 0) {
+      throw new Error('Task already has subtasks');
+    }
+
+    const workflowParams: TaskWorkflowParams = {
+      userId,
+      taskId,
+      action: 'decompose',
+      dueDate: task.dueDate,
+      taskDetails: {
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+      },
     };
+
+    const instance = await this.env.TASK_WORKFLOW.create({
+      params: workflowParams,
+    });
+
+    console.log(`[PersonalAssistant] Started decompose workflow: ${instance.id} for task: ${task.title}`);
+    return instance.id;
+  }
+
+  // Start a reminder workflow for the task's upcoming reminder times and remember its instance id
+  private async scheduleReminder(task: Task): Promise<void> {
+    if (!task.dueDate) {
+      return;
+    }
+
+    const dueDate = task.dueDate;
+    const now = Math.floor(Date.now() / 1000);
+    const offsets = (task.reminderOffsets ?? await this.getDefaultReminderOffsets(task.userId))
+      .filter(offset => dueDate - offset * 60 > now);
+
+    if (offsets.length === 0) {
+      console.log(`[PersonalAssistant] No reminder time left before the due date: ${task.title}`);
+      return;
+    }
+
+    try {
+      const workflowParams: TaskWorkflowParams = {
+        userId: task.userId,
+        taskId: task.id,
+        action: 'reminder',
+        dueDate,
+        reminderOffsets: offsets,
+        taskDetails: {
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+        },
+      };
+
+      const instance = await this.env.TASK_WORKFLOW.create({
+        params: workflowParams,
+      });
+
+      await this.env.DB.prepare(
+        'UPDATE tasks SET reminder_workflow_id = ? WHERE id = ? AND user_id = ?'
+      ).bind(instance.id, task.id, task.userId).run();
+
+      console.log(`[PersonalAssistant] Scheduled reminder workflow: ${instance.id} for task: ${task.title} (${offsets.join(', ')} min before)`);
+    } catch (error) {
+      // The task itself is saved; it just won't get a reminder
+      console.error('[PersonalAssistant] Failed to schedule reminder workflow:', error);
+    }
+  }
+
+  // The user's default offsets from preferences, used by tasks without their own
+  private async getDefaultReminderOffsets(userId: string): Promise<number[]> {
+    const row = await this.env.DB.prepare(
+      'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    return parseDefaultReminderOffsets(row?.preferences as string | null);
+  }
+
+  // Terminate a task's pending reminder workflow, if it has one
+  private async cancelReminder(userId: string, taskId: string): Promise<void> {
+    const row = await this.env.DB.prepare(
+      'SELECT reminder_workflow_id FROM tasks WHERE id = ? AND user_id = ?'
+    ).bind(taskId, userId).first<{ reminder_workflow_id: string | null }>();
+
+    const instanceId = row?.reminder_workflow_id;
+    if (!instanceId) {
+      return;
+    }
+
+    try {
+      const instance = await this.env.TASK_WORKFLOW.get(instanceId);
+      await instance.terminate();
+      console.log(`[PersonalAssistant] Terminated reminder workflow: ${instanceId}`);
+    } catch (error) {
+      // Already finished or errored; the workflow rechecks the task before reminding anyway
+      console.warn(`[PersonalAssistant] Could not terminate reminder workflow ${instanceId}:`, error);
+    }
+
+    await this.env.DB.prepare(
+      'UPDATE tasks SET reminder_workflow_id = NULL WHERE id = ? AND user_id = ?'
+    ).bind(taskId, userId).run();
   }
 
   // Save message to D1 conversations table
@@ -495,10 +845,11 @@ export class PersonalAssistant extends DurableObject<Env> {
     const now = Math.floor(Date.now() / 1000);
 
     await this.env.DB.prepare(
-      'INSERT INTO conversations (id, user_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?)'
+      'INSERT INTO conversations (id, user_id, thread_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?, ?)'
       ).bind(
         message.id,
         userId,
+        this.state.activeThreadId ?? null,
         message.role,
         message.content,
         now,
@@ -507,103 +858,81 @@ export class PersonalAssistant extends DurableObject<Env> {
   }
 
   // Load conversation history from D1
-private async loadConversationHistory(userId: string, limit: number = 50): Promise<Message[]> {
-    const result = await this.env.DB.prepare(
-      'SELECT id, role, content, timestamp, metadata FROM conversations WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?'
-    ).bind(userId, limit).all();
-    
-    if (!result.results || result.results.length === 0) {
-      return [];
-    }
-
-    return result.results.reverse().map(row => ({
-      id: row.id as string,
-      role: row.role as 'user' | 'assistant' | 'system',
-      content: row.content as string,
-      timestamp: (row.timestamp as number) * 1000,
-      metadata: row.metadata ? JSON.parse(row.metadata as string) : undefined,
-    }));
-
+private async loadConversationHistory(userId: string, threadId: string, limit: number = 50): Promise<Message[]> {
+    const page = await loadConversationPage(this.env.DB, userId, { limit, threadId });
+    return page.messages;
 }
 
 // Generate LLM response using worker AI
 private async generateLLMResponse(
   userId: string,
   userMessage: string,
-  conversationHistory: Message[]
-): Promise<string> {
+  conversationHistory: Message[],
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<LLMResult> {
 
     try {
       const context = memoryManager.buildContext(conversationHistory, {
-        maxTokens: 3500,
-        maxMessages: 50,
-        systemPrompt: DEFAULT_SYSTEM_PROMPT,
+        ...CONTEXT_OPTIONS,
+        systemPrompt: this.getSystemPrompt(),
+        summary: this.conversationSummary?.content,
       });
 
       const messages = memoryManager.formatForLLM(context);
 
-      const model = this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
-      const modelKey = (model as unknown) as keyof AiModels;
-      if(!modelKey) throw new Error('No valid LLM model available');
+      console.log(`[LLM] Calling model: ${this.env.LLM_MODEL}, tokens: ${context.totalTokens}, truncated: ${context.truncated}, streaming: ${!!onDelta}`);
 
-      
-      const maxTokens = parseInt(this.env.LLM_MAX_TOKENS || '500');
-      const temperature = parseFloat(this.env.LLM_TEMPERATURE || '0.7');
-
-      console.log(`[LLM] Calling model: ${model}, tokens: ${context.totalTokens}, truncated: ${context.truncated}`);
-
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('LLM timeout after 90s')), 90000)
-        );
+      const result = await this.runLLM(messages, onDelta, signal);
 
-      const llmPromise = this.env.AI.run(modelKey, {
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-        stream: false,
-      }) as Promise<{ response: string }>;
-
-      const response = await Promise.race([llmPromise, timeoutPromise]);
+      console.log(`[LLM] Response generated: ${result.content.length} chars, ${result.toolCalls.length} tool call(s)`);
+      return result;
 
-      const responseText = response?.response?.trim();
-      if(!responseText) {
-        throw new Error ('Empty response from LLM');
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        throw error;
       }
 
-      console.log(`[LLM] Response generated: ${responseText.length} chars`);
-      return responseText;
-
-    } catch (error) {
       console.error('[LLM] Error generating response:', error);
 
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return this.llmErrorReply(error);
+    }
+  }
 
-      if (errorMessage.includes('timeout')) {
-     return 'I apologize, but my response took too long. Please try again.';
-      } 
-      
-      else if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
-        return 'I am experiencing high demand. Please try again in a moment.';
-      } 
-      
-       else {
-        return 'I encountered an error processing your message. Please try again.';
-      }
+  // Apology shown in place of a reply that could not be generated
+  private llmErrorReply(error: unknown): LLMResult {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.includes('timeout')) {
+      return { content: 'I apologize, but my response took too long. Please try again.', toolCalls: [] };
+    } else if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
+      return { content: 'I am experiencing high demand. Please try again in a moment.', toolCalls: [] };
+    } else {
+      return { content: 'I encountered an error processing your message. Please try again.', toolCalls: [] };
     }
   }
 
   private async generateLLMResponseWithRAG(
     userId: string,
     userMessage: string,
-    conversationHistory: Message[]
-  ): Promise<string> {
+    conversationHistory: Message[],
+    onDelta?: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResult> {
+
+    // Once part of a reply has streamed, a second generation would be appended to it
+    let streamed = false;
+    const forwardDelta = onDelta && ((delta: string) => {
+      streamed = true;
+      onDelta(delta);
+    });
 
     try {
 
       const rag_enabled = this.env.RAG_ENABLED !== 'false';
       if(!rag_enabled){
         console.log('[RAG] RAG disabled via environment variable');
-        return await this.generateLLMResponse(userId, userMessage, conversationHistory);
+        return await this.generateLLMResponse(userId, userMessage, conversationHistory, onDelta, signal);
       }
 
       const topK = parseInt(this.env.RAG_TOP_K || '3');
@@ -618,7 +947,7 @@ private async generateLLMResponse(
 
       if (retrievedContext.length === 0){
         console.log('[RAG] No relevant context found, using standard response');
-        return await this.generateLLMResponse(userId, userMessage, conversationHistory);
+        return await this.generateLLMResponse(userId, userMessage, conversationHistory, onDelta, signal);
       }
       
       console.log(`[RAG] Found ${retrievedContext.length} relevant items`);
@@ -627,69 +956,259 @@ private async generateLLMResponse(
         conversationHistory,
         retrievedContext,
         {
-          maxTokens: 3500,
-          maxMessages: 50,
-          systemPrompt: DEFAULT_SYSTEM_PROMPT,
+          ...CONTEXT_OPTIONS,
+          systemPrompt: this.getSystemPrompt(),
+          summary: this.conversationSummary?.content,
         }
       );
 
       const messages = memoryManager.formatForLLM(context);
 
-      const model = this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+      console.log(`[LLM] Calling with RAG context - tokens: ${context.totalTokens}, truncated: ${context.truncated}, streaming: ${!!onDelta}`);
+
+      const result = await this.runLLM(messages, forwardDelta, signal);
+
+      console.log(`[LLM] RAG-enhanced response generated: ${result.content.length} chars, ${result.toolCalls.length} tool call(s)`);
+      return result;
+
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        throw error;
+      }
+
+      if (streamed) {
+        // chat_done replaces the partial reply with the apology
+        console.error('[RAG] Error while streaming RAG response:', error);
+        return this.llmErrorReply(error);
+      }
+
+      console.error('[RAG] Error generating RAG response, falling back to standard:', error);
+
+      // Fallback to non-RAG on error
+      return await this.generateLLMResponse(userId, userMessage, conversationHistory, onDelta, signal);
+    }
+  }
 
-      const modelKey = (model as unknown) as keyof AiModels;
-      if (!modelKey) throw new Error('No valid LLM model available');
+  // Native function calling unless TOOL_CALLING_MODE selects the fenced-JSON protocol
+  private useNativeToolCalling(): boolean {
+    return this.env.TOOL_CALLING_MODE !== 'json';
+  }
 
-      const maxTokens = parseInt(this.env.LLM_MAX_TOKENS || '500');
-      const temperature = parseFloat(this.env.LLM_TEMPERATURE || '0.7');
+  private getSystemPrompt(): string {
+    return this.useNativeToolCalling() ? NATIVE_TOOLS_SYSTEM_PROMPT : DEFAULT_SYSTEM_PROMPT;
+  }
 
-      console.log(`[LLM] Calling with RAG context - tokens: ${context.totalTokens}, truncated: ${context.truncated}`);
+  // Run the configured model, streaming deltas through onDelta when provided
+  // and giving up as soon as the signal is aborted
+  private async runLLM(
+    messages: Array<{ role: string; content: string }>,
+    onDelta?: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResult> {
+    throwIfCancelled(signal);
+
+    const model = this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+    const modelKey = (model as unknown) as keyof AiModels;
+    if (!modelKey) throw new Error('No valid LLM model available');
+
+    const maxTokens = parseInt(this.env.LLM_MAX_TOKENS || '500');
+    const temperature = parseFloat(this.env.LLM_TEMPERATURE || '0.7');
+    const nativeTools = this.useNativeToolCalling();
+
+    // Stops reading the stream on cancellation or timeout
+    const stopStream = new AbortController();
+    const onCancel = () => stopStream.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
+
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        stopStream.abort();
+        reject(new Error('LLM timeout after 90s'));
+      }, 90000);
+    });
 
-      const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error('LLM timeout after 90s')), 90000)
+    const cancelPromise = new Promise<never>((_, reject) =>
+      signal?.addEventListener('abort', () => reject(new GenerationCancelledError()), { once: true })
     );
 
-      const llmPromise = this.env.AI.run(modelKey, {
-        messages,
-        max_tokens: maxTokens,
-        temperature,
+    const inputs = {
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+      ...(nativeTools ? { tools: ALL_TOOLS.map(toFunctionTool) } : {}),
+    };
+
+    let llmPromise: Promise<{ text: string; rawToolCalls: unknown[] }>;
+
+    if (onDelta) {
+      const stream = this.env.AI.run(modelKey, {
+        ...inputs,
+        stream: true,
+      }) as Promise<ReadableStream<Uint8Array>>;
+
+      llmPromise = stream.then(body => this.readLLMStream(body, onDelta, stopStream.signal));
+    } else {
+      const response = this.env.AI.run(modelKey, {
+        ...inputs,
         stream: false,
-      }) as Promise<{ response: string }>;
+      }) as Promise<{ response?: string; tool_calls?: unknown[] }>;
+
+      llmPromise = response.then(body => ({
+        text: body?.response || '',
+        rawToolCalls: body?.tool_calls || [],
+      }));
+    }
+
+    let text: string;
+    let rawToolCalls: unknown[];
+    try {
+      ({ text, rawToolCalls } = await Promise.race([llmPromise, timeoutPromise, cancelPromise]));
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCancel);
+    }
+    const responseText = text.trim();
+    const nativeCalls = this.parseNativeToolCalls(rawToolCalls);
+
+    if (!responseText && nativeCalls.length === 0) {
+      throw new Error('Empty response from LLM');
+    }
+
+    if (nativeCalls.length === 0) {
+      // Fenced JSON blocks: the configured protocol in json mode, a fallback when the model drifts in native mode
+      return { content: responseText, toolCalls: this.extractJSONBlocks(responseText) };
+    }
 
-      const response = await Promise.race([llmPromise, timeoutPromise]);
+    // Mirror native calls as fenced blocks so history reads the same in both modes
+    const fencedCalls = nativeCalls
+      .map(call => '```json\n' + JSON.stringify(call, null, 2) + '\n```')
+      .join('\n\n');
 
-      const responseText = response?.response?.trim();
+    return {
+      content: responseText ? `${responseText}\n\n${fencedCalls}` : fencedCalls,
+      toolCalls: nativeCalls,
+    };
+  }
+
+  // Normalize structured tool calls from either the legacy or the OpenAI-style output shape
+  private parseNativeToolCalls(rawToolCalls: unknown[]): ToolCall[] {
+    const toolCalls: ToolCall[] = [];
 
-      if (!responseText) {
-        throw new Error('Empty response from LLM');
+    for (const raw of rawToolCalls) {
+      const call = raw as { name?: string; arguments?: unknown; function?: { name?: string; arguments?: unknown } };
+      const name = call.function?.name ?? call.name;
+      let args = call.function?.arguments ?? call.arguments ?? {};
+
+      if (!name) continue;
+
+      if (typeof args === 'string') {
+        try {
+          args = args.trim() ? JSON.parse(args) : {};
+        } catch (e) {
+          console.warn(`[PersonalAssistant] Failed to parse arguments for native tool call ${name}:`, e);
+          continue;
+        }
       }
 
-      console.log(`[LLM] RAG-enhanced response generated: ${responseText.length} chars`);
-      return responseText;
+      toolCalls.push({ tool: name, params: args });
+    }
 
-    } catch (error) {
-      console.error('[RAG] Error generating RAG response, falling back to standard:', error);
+    return toolCalls;
+  }
 
-      // Fallback to non-RAG on error
-      return await this.generateLLMResponse(userId, userMessage, conversationHistory);
+  // Read a Workers AI server-sent event stream, forwarding each token as it arrives
+  private async readLLMStream(
+    body: ReadableStream<Uint8Array>,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ text: string; rawToolCalls: unknown[] }> {
+    const reader = body.getReader();
+
+    // Stop pulling tokens once cancelled or timed out; runLLM has already rejected
+    if (signal?.aborted) {
+      reader.cancel().catch(() => {});
+    }
+    signal?.addEventListener('abort', () => {
+      reader.cancel().catch(() => {});
+    }, { once: true });
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+    const rawToolCalls: unknown[] = [];
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are newline delimited; keep the trailing partial line for the next chunk
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+
+        const event = data.slice(5).trim();
+        if (event === '[DONE]') {
+          return { text: fullText, rawToolCalls };
+        }
+
+        try {
+          const parsed = JSON.parse(event) as { response?: string; tool_calls?: unknown[] };
+          if (parsed.response && !signal?.aborted) {
+            fullText += parsed.response;
+            onDelta(parsed.response);
+          }
+          if (parsed.tool_calls?.length) {
+            rawToolCalls.push(...parsed.tool_calls);
+          }
+        } catch (e) {
+          console.warn('[LLM] Failed to parse stream event:', e);
+        }
+      }
     }
+
+    return { text: fullText, rawToolCalls };
   }
   // ==================== WebSocket Message Handlers ====================
 
-  // Handle chat messages (placeholder - will be implemented with LLM in Phase 3)
-  private async handleChatMessage(ws: WebSocket, session: WebSocketSession, content: string) {
-   
+  // Handle chat messages: run the agent loop until the model answers in natural language
+  private async handleChatMessage(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'chat'>) {
+    if (this.generation) {
+      this.sendGenerationBusy(ws);
+      return;
+    }
+
     await this.ensureUser(session.userId);
 
+    // Messages sent with no thread selected start a new one
+    if (!this.state.activeThreadId) {
+      const thread = await this.threads.createThread(session.userId);
+      await this.switchThread(session.userId, thread.id);
+      // Unlike thread_switched, the client keeps the messages it is already showing
+      this.broadcast('thread_created', { thread }, ws);
+    } else {
+      await this.threads.touchThread(this.state.activeThreadId);
+    }
+
     const userMessage: Message = {
       id: crypto.randomUUID(),
       role: 'user',
-      content,
+      content: payload.content,
       timestamp: Date.now(),
     };
-    this.state.conversationHistory.push(userMessage);
+    await this.recordMessage(session.userId, userMessage);
+
+    // Ids are global, so the client's own id is never stored; tell it which one to edit by instead
+    if (payload.clientId) {
+      this.send(ws, 'message_saved', { clientId: payload.clientId, messageId: userMessage.id });
+    }
 
-    await this.saveMessageToD1(session.userId, userMessage);
+    // Other devices show the message; the sender already has it
+    this.broadcast('user_message', { message: userMessage }, ws);
 
     // Store user message embedding (silently fails if Vectorize unavailable in local dev)
     await this.vectorize.storeMessageEmbedding(
@@ -698,66 +1217,301 @@ private async generateLLMResponse(
       'conversation'
     );
 
-    const responseContent = await this.generateLLMResponseWithRAG(
-      session.userId,
-      content,
-      this.state.conversationHistory
-    );
-
-    const toolCalls = this.extractJSONBlocks(responseContent);
-
-    if (toolCalls.length > 0) {
-      console.log(`[PersonalAssistant] Detected ${toolCalls.length} tool call(s) in response`);
+    await this.runGeneration(ws, session, payload.content);
+  }
 
-      for (const toolCall of toolCalls) {
-        const executionResult = await this.executeToolsWithConfirmation(ws, session, toolCall);
+  // Run the agent loop as a cancellable generation, telling the client when it starts and stops
+  private async runGeneration(ws: WebSocket, session: WebSocketSession, query: string): Promise<void> {
+    const controller = new AbortController();
+    this.generation = controller;
+    this.sendGenerationStatus(ws, true);
 
-        ws.send(JSON.stringify({
-          type: 'tool_execution_result',
-          payload: {
-            success: executionResult.success,
-            output: executionResult.output,
-            error: executionResult.error,
-            toolName: toolCall.tool,
-          },
-          timestamp: Date.now(),
-        }));
+    try {
+      await this.runAgentLoop(ws, session, query, controller.signal);
+    } catch (error) {
+      if (!(error instanceof GenerationCancelledError)) {
+        throw error;
       }
 
-      // Don't send JSON blocks as chat message - they're not user-friendly
-      // User will see tool execution results instead
-      return;
+      console.log(`[PersonalAssistant] Generation cancelled for user ${session.userId}`);
+      this.broadcast('generation_cancelled', {}, ws);
+    } finally {
+      if (this.generation === controller) {
+        this.generation = null;
+      }
+      this.sendGenerationStatus(ws, false);
     }
+  }
 
-    const assistantMessage: Message = {
-      id: crypto.randomUUID(),
-      role: 'assistant',
-      content: responseContent,
-      timestamp: Date.now(),
-    };
-    this.state.conversationHistory.push(assistantMessage);
+  // Call the model, execute any tool calls it makes and feed the results back,
+  // until it answers in natural language, the iteration guard is hit or the signal is aborted
+  private async runAgentLoop(ws: WebSocket, session: WebSocketSession, query: string, signal?: AbortSignal) {
+    const streaming = this.env.LLM_STREAMING !== 'false';
+    const maxIterations = parseInt(this.env.AGENT_MAX_ITERATIONS || '5');
 
-    await this.saveMessageToD1(session.userId, assistantMessage);
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      throwIfCancelled(signal);
 
-    // Store assistant message embedding (silently fails if Vectorize unavailable in local dev)
-    await this.vectorize.storeMessageEmbedding(
-      session.userId,
-      assistantMessage,
-      'conversation'
-    );
+      const assistantMessageId = crypto.randomUUID();
+
+      let result: LLMResult;
+      try {
+        result = await this.generateLLMResponseWithRAG(
+          session.userId,
+          query,
+          this.state.conversationHistory,
+          streaming ? this.createDeltaForwarder(ws, assistantMessageId) : undefined,
+          signal
+        );
+      } catch (error) {
+        if (error instanceof GenerationCancelledError && streaming) {
+          // Nothing of a cancelled reply is kept, so drop the partly streamed bubble
+          this.broadcast('chat_done', { messageId: assistantMessageId, content: '' }, ws);
+        }
+        throw error;
+      }
+
+      const { content: responseContent, toolCalls } = result;
 
-    ws.send(JSON.stringify({
-      type: 'chat_response',
-      payload: {
+      if (toolCalls.length === 0) {
+        await this.sendAssistantReply(ws, session, assistantMessageId, responseContent, streaming);
+        return;
+      }
+
+      console.log(`[PersonalAssistant] Iteration ${iteration}: detected ${toolCalls.length} tool call(s) in response`);
+
+      if (streaming) {
+        // Settle the streamed bubble on the explanation that preceded the tool call(s)
+        const fenceIndex = responseContent.indexOf('```');
+        this.broadcast('chat_done', {
+          messageId: assistantMessageId,
+          content: (fenceIndex >= 0 ? responseContent.slice(0, fenceIndex) : '').trim(),
+        }, ws);
+      }
+
+      // Keep the raw tool-call turn in context so the model can see what it asked for
+      await this.recordMessage(session.userId, {
+        id: assistantMessageId,
+        role: 'assistant',
         content: responseContent,
-        messageId: assistantMessage.id,
-      },
+        timestamp: Date.now(),
+        metadata: { type: 'tool_calls', iteration, tools: toolCalls.map(tc => tc.tool) },
+      });
+
+      // One confirmation for the whole turn, then results in the order the model asked for them
+      const executionResults = await this.executeToolsWithConfirmation(ws, session, toolCalls, signal);
+
+      for (const [index, toolCall] of toolCalls.entries()) {
+        await this.reportToolResult(ws, session, toolCall.tool, executionResults[index], iteration);
+      }
+    }
+
+    console.warn(`[PersonalAssistant] Agent loop stopped after ${maxIterations} iterations`);
+
+    await this.sendAssistantReply(
+      ws,
+      session,
+      crypto.randomUUID(),
+      'I had to stop after several tool steps without reaching a final answer. Please check the results above and let me know how to continue.',
+      streaming
+    );
+  }
+
+  // Send a tool outcome to the client and feed it back into the conversation
+  // so the next iteration can summarize it or chain another tool
+  private async reportToolResult(
+    ws: WebSocket,
+    session: WebSocketSession,
+    toolName: string,
+    executionResult: { success: boolean; output?: any; error?: string },
+    iteration?: number
+  ): Promise<void> {
+    this.broadcast('tool_execution_result', {
+      success: executionResult.success,
+      output: executionResult.output,
+      error: executionResult.error,
+      toolName,
+    }, ws);
+
+    await this.recordMessage(session.userId, {
+      id: crypto.randomUUID(),
+      role: 'system',
+      content: this.formatToolResult(toolName, executionResult),
       timestamp: Date.now(),
-    }));
+      metadata: { type: 'tool_result', iteration, toolName, success: executionResult.success },
+    });
+  }
+
+  // Append a message to the in-memory history and persist it to D1
+  private async recordMessage(userId: string, message: Message): Promise<void> {
+    this.state.conversationHistory.push(message);
+    await this.saveMessageToD1(userId, message);
+  }
+
+  // Persist the final assistant answer and deliver it to the client
+  private async sendAssistantReply(
+    ws: WebSocket,
+    session: WebSocketSession,
+    messageId: string,
+    content: string,
+    streaming: boolean
+  ): Promise<void> {
+    const assistantMessage: Message = {
+      id: messageId,
+      role: 'assistant',
+      content,
+      timestamp: Date.now(),
+    };
+    await this.recordMessage(session.userId, assistantMessage);
+
+    // Store assistant message embedding (silently fails if Vectorize unavailable in local dev)
+    await this.vectorize.storeMessageEmbedding(
+      session.userId,
+      assistantMessage,
+      'conversation'
+    );
+
+    this.broadcast(streaming ? 'chat_done' : 'chat_response', {
+      content,
+      messageId,
+    }, ws);
+
+    // Compress anything that just fell out of the window without delaying the reply
+    this.ctx.waitUntil(this.refreshConversationSummary());
+
+    // Name the thread once its first exchange is complete
+    if (this.state.activeThreadId &&
+        this.state.conversationHistory.filter(m => m.role === 'assistant' && !m.metadata).length === 1) {
+      this.ctx.waitUntil(this.generateThreadTitle(ws, session.userId, this.state.activeThreadId));
+    }
+  }
+
+  // Title an untitled thread from its first user message and reply
+  private async generateThreadTitle(ws: WebSocket, userId: string, threadId: string): Promise<void> {
+    try {
+      const thread = await this.threads.getThread(userId, threadId);
+      if (!thread || thread.title) return;
+
+      const firstUserMessage = this.state.conversationHistory.find(m => m.role === 'user');
+      const firstReply = this.state.conversationHistory.find(m => m.role === 'assistant' && !m.metadata);
+      if (!firstUserMessage || !firstReply) return;
+
+      const title = await this.threads.generateTitle(firstUserMessage.content, firstReply.content);
+      const updated = await this.threads.renameThread(userId, threadId, title);
+
+      this.broadcast('thread_updated', { thread: updated }, ws);
+    } catch (error) {
+      // The thread stays untitled; the client shows a placeholder
+      console.error('[PersonalAssistant] Failed to generate thread title:', error);
+    }
+  }
+
+  // Fold messages evicted from the context window into the rolling summary
+  private async refreshConversationSummary(): Promise<void> {
+    // One refresh at a time; the next reply picks up whatever this one missed
+    if (this.summaryRefresh) return;
+
+    const threadId = this.state.activeThreadId;
+    if (!threadId) return;
+
+    const history = this.state.conversationHistory;
+    const coveredIndex = this.summaryCoveredIndex(history);
+    const positions = new Map(history.map((msg, index) => [msg.id, index]));
+
+    const pending = memoryManager
+      .getEvictedMessages(history, {
+        ...CONTEXT_OPTIONS,
+        systemPrompt: this.getSystemPrompt(),
+        summary: this.conversationSummary?.content,
+      })
+      .filter(msg => (positions.get(msg.id) ?? -1) > coveredIndex);
+
+    if (pending.length < SUMMARY_BATCH_SIZE) return;
+
+    this.summaryRefresh = (async () => {
+      try {
+        console.log(`[PersonalAssistant] Summarizing ${pending.length} evicted message(s)`);
+
+        const content = await memoryManager.summarizeConversation(pending, {
+          ai: this.env.AI,
+          model: this.env.LLM_MODEL,
+          previousSummary: this.conversationSummary?.content,
+        });
+
+        const summary: ConversationSummary = {
+          content,
+          coveredMessageId: pending[pending.length - 1].id,
+          messageCount: (this.conversationSummary?.messageCount ?? 0) + pending.length,
+          updatedAt: Date.now(),
+        };
+        await this.ctx.storage.put(`${SUMMARY_STORAGE_PREFIX}${threadId}`, summary);
+
+        // The user may have switched threads while the summary was being written
+        if (this.state.activeThreadId === threadId) {
+          this.conversationSummary = summary;
+        }
+      } catch (error) {
+        // The messages stay pending and are retried after the next reply
+        console.error('[PersonalAssistant] Failed to update conversation summary:', error);
+      } finally {
+        this.summaryRefresh = null;
+      }
+    })();
+
+    await this.summaryRefresh;
+  }
+
+  // Position in `history` of the newest message the summary covers; -1 when there is no summary or that
+  // message is older than the loaded history. Timestamps can't tell: reloaded ones only have whole seconds.
+  private summaryCoveredIndex(history: Message[]): number {
+    const coveredMessageId = this.conversationSummary?.coveredMessageId;
+    return coveredMessageId ? history.findIndex(msg => msg.id === coveredMessageId) : -1;
+  }
+
+  // Build an onDelta callback that streams visible text for one assistant message,
+  // holding back anything from the first code fence on so JSON tool-call blocks never reach the chat bubble
+  private createDeltaForwarder(ws: WebSocket, messageId: string): (delta: string) => void {
+    let streamedText = '';
+    let sentLength = 0;
+
+    return (delta: string) => {
+      streamedText += delta;
+
+      const fenceIndex = streamedText.indexOf('```');
+      const visibleEnd = fenceIndex >= 0
+        ? fenceIndex
+        : streamedText.length - (streamedText.match(/`{1,2}$/)?.[0].length || 0);
+
+      if (visibleEnd > sentLength) {
+        this.broadcast('chat_delta', {
+          messageId,
+          delta: streamedText.slice(sentLength, visibleEnd),
+        }, ws);
+        sentLength = visibleEnd;
+      }
+    };
+  }
+
+  // Render a tool outcome as a context message for the next LLM call
+  private formatToolResult(
+    toolName: string,
+    result: { success: boolean; output?: any; error?: string }
+  ): string {
+    const MAX_RESULT_LENGTH = 2000;
+
+    const body = result.success
+      ? JSON.stringify(result.output ?? { message: 'Completed with no output' })
+      : `Error: ${result.error || 'Unknown error'}`;
+
+    const truncated = body.length > MAX_RESULT_LENGTH
+      ? `${body.slice(0, MAX_RESULT_LENGTH)}... (truncated)`
+      : body;
+
+    return `Tool result for ${toolName} (${result.success ? 'success' : 'failed'}): ${truncated}`;
   }
 
   // Handle task creation
-  private async handleCreateTask(ws: WebSocket, session: WebSocketSession, data: any) {
+  private async handleCreateTask(ws: WebSocket, session: WebSocketSession, data: ClientPayload<'create_task'>) {
     await this.ensureUser(session.userId);
 
     try {
@@ -766,55 +1520,638 @@ private async generateLLMResponse(
         data.title,
         data.description,
         data.dueDate,
-        data.priority
+        data.priority,
+        data.reminderOffsets,
+        data.recurrence
       );
 
-      if (task.dueDate) {
-        try {
-          const reminderTime = task.dueDate - (24 * 60 * 60); 
-          const now = Math.floor(Date.now() / 1000);
-
-          
-          if (reminderTime > now) {
-            const workflowParams: TaskWorkflowParams = {
-              userId: session.userId,
-              taskId: task.id,
-              action: 'reminder',
-              dueDate: task.dueDate,
-              taskDetails: {
-                title: task.title,
-                description: task.description,
-                priority: task.priority,
-              },
-            };
+      this.broadcast('task_created', { task }, ws);
+    } catch (error) {
+      console.error('Error creating task:', error);
+      this.sendError(ws, 'internal_error', 'Failed to create task', error);
+    }
+  }
 
-            const instance = await this.env.TASK_WORKFLOW.create({
-              params: workflowParams,
-            });
+  // Send a page of stored conversation, newest page first; `before` pages further back
+  private async handleHistoryRequest(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'history'>) {
+    try {
+      const before = payload.before ?? null;
+      const threadId = this.state.activeThreadId;
+
+      // No thread selected yet means a fresh conversation with nothing to show
+      const page = threadId
+        ? await loadConversationPage(this.env.DB, session.userId, {
+            before,
+            limit: payload.limit,
+            threadId,
+          })
+        : { messages: [], hasMore: false, nextCursor: null };
+
+      this.send(ws, 'history', {
+        messages: toDisplayMessages(page.messages),
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor,
+        before,
+        threadId: threadId ?? null,
+      });
+    } catch (error) {
+      console.error('Error loading history:', error);
+      this.sendError(ws, 'internal_error', 'Failed to load conversation history', error);
+    }
+  }
 
-            console.log(`[PersonalAssistant] Scheduled reminder workflow: ${instance.id} for task: ${task.title}`);
-          } else {
-            console.log(`[PersonalAssistant] Task due date too soon for reminder (less than 24h): ${task.title}`);
-          }
-        } catch (error) {
-          console.error('[PersonalAssistant] Failed to schedule reminder workflow:', error);
-      
+  // Send a protocol message; the payload is typed by the shared schema for `type`
+  private send<T extends ServerMessageType>(ws: WebSocket, type: T, payload: ServerPayloadInput<T>) {
+    ws.send(encodeServerMessage(type, payload));
+  }
+
+  // Send a protocol message to every device the user has connected.
+  // `origin` is the connection whose message caused it, so that device can skip its own echo
+  private broadcast<T extends ServerMessageType>(type: T, payload: ServerPayloadInput<T>, origin?: WebSocket) {
+    const frame = encodeServerMessage(type, payload, origin ? this.sessions.get(origin)?.sessionId : undefined);
+
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        ws.send(frame);
+      } catch (error) {
+        // Closing sockets are dropped in webSocketClose; the others still get the update
+        console.warn(`[PersonalAssistant] Failed to deliver ${type} to a session:`, error);
+      }
+    }
+  }
+
+  private sendError(ws: WebSocket, code: ErrorCode, message: string, details?: unknown) {
+    this.send(ws, 'error', {
+      code,
+      message,
+      details: details instanceof Error ? details.message : details,
+    });
+  }
+
+  // ==================== Reminders ====================
+
+  // Push a reminder to every open session, or hold it until the user next connects
+  private async handleReminder(request: Request): Promise<Response> {
+    const parsed = reminderSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        error: 'Invalid reminder',
+        details: parsed.error.issues.map(issue => issue.message),
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const reminder = parsed.data;
+    const delivered = this.ctx.getWebSockets().length > 0;
+
+    if (delivered) {
+      this.broadcast('reminder', { reminder });
+      console.log(`[PersonalAssistant] Reminder ${reminder.id} pushed to ${this.ctx.getWebSockets().length} session(s)`);
+    } else {
+      const pending = await this.ctx.storage.get<Reminder[]>(PENDING_REMINDERS_KEY) || [];
+
+      // A workflow retry may deliver the same reminder again
+      if (!pending.some(r => r.id === reminder.id)) {
+        pending.push(reminder);
+        await this.ctx.storage.put(PENDING_REMINDERS_KEY, pending.slice(-MAX_PENDING_REMINDERS));
+      }
+      console.log(`[PersonalAssistant] Reminder ${reminder.id} queued; no session is open`);
+    }
+
+    return new Response(JSON.stringify({ delivered }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Send reminders queued while the user was offline to a newly connected session
+  private async deliverPendingReminders(ws: WebSocket): Promise<void> {
+    const pending = await this.ctx.storage.get<Reminder[]>(PENDING_REMINDERS_KEY);
+    if (!pending?.length) return;
+
+    for (const reminder of pending) {
+      this.send(ws, 'reminder', { reminder });
+    }
+    await this.ctx.storage.delete(PENDING_REMINDERS_KEY);
+
+    console.log(`[PersonalAssistant] Delivered ${pending.length} queued reminder(s)`);
+  }
+
+  // ==================== Subtasks ====================
+
+  // Store a decompose workflow's subtasks and push them to every open session
+  private async handleCreateSubtasks(request: Request): Promise<Response> {
+    const parsed = createSubtasksRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        error: 'Invalid subtasks',
+        details: parsed.error.issues.map(issue => issue.message),
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { userId, parentTaskId, subtasks } = parsed.data;
+
+    try {
+      const result = await this.createSubtasks(userId, parentTaskId, subtasks);
+
+      if (result.created) {
+        for (const task of result.subtasks) {
+          this.broadcast('task_created', { task });
         }
       }
+      console.log(`[PersonalAssistant] ${result.created ? 'Created' : 'Found existing'} ${result.subtasks.length} subtask(s) of task ${parentTaskId}`);
 
-      ws.send(JSON.stringify({
-        type: 'task_created',
-        task,
-        timestamp: Date.now(),
-      }));
+      return new Response(JSON.stringify({ subtaskIds: result.subtasks.map(task => task.id) }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
     } catch (error) {
-      console.error('Error creating task:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to create task',
-        details: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
-      }));
+      console.error('[PersonalAssistant] Failed to create subtasks:', error);
+      return new Response(JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to create subtasks',
+      }), {
+        status: error instanceof Error && error.message === 'Task not found' ? 404 : 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // ==================== Scheduled Actions ====================
+
+  // Store an approved tool call and start the workflow that runs it at `runAt`
+  private async scheduleAction(
+    userId: string,
+    toolName: string,
+    params: Record<string, unknown>,
+    runAt: number,
+    confirmed: boolean
+  ): Promise<{ id: string; toolName: string; runAt: number }> {
+    const tool = getTool(toolName);
+    if (!tool || tool.name === 'scheduleAction') {
+      throw new Error(`Unknown tool: ${toolName}`);
+    }
+
+    // Catch bad parameters while the user is still around to fix them
+    const validation = tool.parameters.safeParse(params);
+    if (!validation.success) {
+      throw new Error(`Invalid parameters for ${toolName}: ${validation.error.message}`);
+    }
+
+    const policy = await this.getToolCallPolicy(userId, scheduleActionTool, { tool: toolName });
+    if (policy === 'deny') {
+      throw new Error(`${toolName} is disabled in your tool settings`);
+    }
+    // An auto-approved scheduleAction must not skip the prompt for a tool that still asks
+    if (policy === 'ask' && !confirmed) {
+      throw new Error(`Scheduling ${toolName} needs your confirmation`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (runAt <= now) {
+      throw new Error('The scheduled time has already passed');
+    }
+    if (runAt > now + MAX_SCHEDULE_AHEAD_SECONDS) {
+      throw new Error('Actions can be scheduled at most a year ahead');
+    }
+
+    const actionId = crypto.randomUUID();
+
+    await this.env.DB.prepare(
+      'INSERT INTO scheduled_actions (id, user_id, tool_name, params, run_at, status, confirmed, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(actionId, userId, toolName, JSON.stringify(params), runAt, 'pending', confirmed ? 1 : 0, now).run();
+
+    try {
+      const workflowParams: TaskWorkflowParams = {
+        userId,
+        action: 'schedule',
+        actionId,
+      };
+
+      const instance = await this.env.TASK_WORKFLOW.create({
+        params: workflowParams,
+      });
+
+      await this.env.DB.prepare(
+        'UPDATE scheduled_actions SET workflow_id = ? WHERE id = ?'
+      ).bind(instance.id, actionId).run();
+
+      console.log(`[PersonalAssistant] Scheduled ${toolName} for ${new Date(runAt * 1000).toISOString()}: workflow ${instance.id}`);
+    } catch (error) {
+      // Nothing would ever run it
+      await this.env.DB.prepare('DELETE FROM scheduled_actions WHERE id = ?').bind(actionId).run();
+      throw error;
+    }
+
+    return { id: actionId, toolName, runAt };
+  }
+
+  // Run a due scheduled action and tell every open session how it went
+  private async handleRunScheduledAction(request: Request): Promise<Response> {
+    const parsed = runScheduledActionRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        error: 'Invalid scheduled action request',
+        details: parsed.error.issues.map(issue => issue.message),
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { userId, actionId } = parsed.data;
+
+    // Claim the action first so a retried request cannot run it twice
+    const claim = await this.env.DB.prepare(
+      "UPDATE scheduled_actions SET status = 'running', executed_at = ? WHERE id = ? AND user_id = ? AND status = 'pending'"
+    ).bind(Math.floor(Date.now() / 1000), actionId, userId).run();
+
+    const action = await this.env.DB.prepare(
+      'SELECT * FROM scheduled_actions WHERE id = ? AND user_id = ?'
+    ).bind(actionId, userId).first<ScheduledActionRow>();
+
+    if (!action) {
+      return new Response(JSON.stringify({ error: 'Scheduled action not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!claim.meta.changes) {
+      console.log(`[PersonalAssistant] Scheduled action ${actionId} is already ${action.status}, not running it again`);
+      const previous = action.result ? JSON.parse(action.result) as { success: boolean; error?: string } : null;
+      return new Response(JSON.stringify({
+        status: action.status,
+        success: previous?.success ?? false,
+        error: previous?.error,
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Policies may have changed since the action was scheduled
+    const policy = await this.getToolCallPolicy(userId, scheduleActionTool, { tool: action.tool_name });
+    const result = policy === 'deny'
+      ? { success: false, error: `${action.tool_name} was disabled in your tool settings after it was scheduled` }
+      : policy === 'ask' && !action.confirmed
+        ? { success: false, error: `${action.tool_name} now asks for confirmation, and this action was scheduled without it` }
+        : await this.executeTool(userId, { tool: action.tool_name, params: JSON.parse(action.params) });
+
+    const status = result.success ? 'succeeded' : 'failed';
+    await this.env.DB.prepare(
+      'UPDATE scheduled_actions SET status = ?, result = ? WHERE id = ?'
+    ).bind(status, JSON.stringify(result), actionId).run();
+
+    const message: Message = {
+      id: `scheduled-${actionId}`,
+      role: 'system',
+      content: `Scheduled action ran. ${this.formatToolResult(action.tool_name, result)}`,
+      timestamp: Date.now(),
+      metadata: { type: 'scheduled_action', actionId, toolName: action.tool_name, success: result.success },
+    };
+    await this.recordMessage(userId, message);
+
+    this.broadcast('scheduled_action_result', {
+      actionId,
+      toolName: action.tool_name,
+      success: result.success,
+      output: result.output,
+      error: result.error,
+      message,
+    });
+
+    console.log(`[PersonalAssistant] Scheduled action ${actionId} (${action.tool_name}) ${status}`);
+
+    return new Response(JSON.stringify({ status, success: result.success, error: result.error }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // ==================== Daily Briefing ====================
+
+  // Store a briefing in the conversation and push it to every open session
+  private async handleDeliverBriefing(request: Request): Promise<Response> {
+    const parsed = deliverBriefingRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        error: 'Invalid briefing',
+        details: parsed.error.issues.map(issue => issue.message),
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { userId, briefingId, date, content } = parsed.data;
+
+    // A workflow retry may deliver the same briefing again
+    const existing = await this.env.DB.prepare(
+      'SELECT id FROM conversations WHERE id = ? AND user_id = ?'
+    ).bind(briefingId, userId).first();
+
+    if (existing) {
+      return new Response(JSON.stringify({ delivered: false, duplicate: true }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const message: Message = {
+      id: briefingId,
+      role: 'assistant',
+      content,
+      timestamp: Date.now(),
+      metadata: { type: 'briefing', date },
+    };
+    await this.recordMessage(userId, message);
+
+    const delivered = this.ctx.getWebSockets().length > 0;
+    this.broadcast('briefing', { message, date });
+    console.log(`[PersonalAssistant] Briefing for ${date} ${delivered ? 'pushed to open sessions' : 'stored for the next visit'}`);
+
+    return new Response(JSON.stringify({ delivered, duplicate: false }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Run getWeather or sendEmail for a briefing, honouring the user's tool policies
+  private async handleBriefingTool(request: Request): Promise<Response> {
+    const parsed = briefingToolRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        error: 'Invalid briefing tool request',
+        details: parsed.error.issues.map(issue => issue.message),
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { userId, tool, params } = parsed.data;
+    const toolDef = getTool(tool);
+
+    const result = toolDef && await this.getToolPolicy(userId, toolDef) === 'deny'
+      ? { success: false, error: `${tool} is disabled in your tool settings` }
+      : await this.executeTool(userId, { tool, params });
+
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // ==================== Generation Handlers ====================
+
+  private sendGenerationStatus(ws: WebSocket, active: boolean) {
+    this.broadcast('generation_status', { active }, ws);
+  }
+
+  private sendGenerationBusy(ws: WebSocket) {
+    this.sendError(ws, 'generation_busy', 'A reply is still being generated', 'Stop the current reply or wait for it to finish');
+  }
+
+  // Stop the reply being generated; the agent loop unwinds at its next await
+  private handleCancelGeneration(ws: WebSocket) {
+    if (!this.generation) {
+      // Nothing running, e.g. the reply finished first: let the client resync
+      this.sendGenerationStatus(ws, false);
+      return;
+    }
+
+    console.log('[PersonalAssistant] Cancelling generation');
+    this.generation.abort();
+  }
+
+  // Delete superseded messages from D1 and their embeddings from Vectorize
+  private async deleteMessages(userId: string, messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    const placeholders = messageIds.map(() => '?').join(', ');
+    await this.env.DB.prepare(
+      `DELETE FROM conversations WHERE user_id = ? AND id IN (${placeholders})`
+    ).bind(userId, ...messageIds).run();
+
+    if (this.env.VECTORIZE) {
+      await this.vectorize.deleteEmbeddings(messageIds);
+    }
+  }
+
+  // Replace the last assistant answer with a new one for the same question
+  // Tool calls and results before it are kept, so tools are not run a second time
+  private async handleRegenerate(ws: WebSocket, session: WebSocketSession) {
+    if (this.generation) {
+      this.sendGenerationBusy(ws);
+      return;
+    }
+
+    try {
+      const history = this.state.conversationHistory;
+      const lastMessage = history[history.length - 1];
+
+      if (!lastMessage || lastMessage.role !== 'assistant' || lastMessage.metadata) {
+        this.sendError(ws, 'not_found', 'There is no reply to regenerate');
+        return;
+      }
+
+      this.state.conversationHistory = history.slice(0, -1);
+      await this.deleteMessages(session.userId, [lastMessage.id]);
+
+      this.broadcast('messages_removed', { messageIds: [lastMessage.id] }, ws);
+
+      console.log(`[PersonalAssistant] Regenerating reply ${lastMessage.id}`);
+
+      const lastUserMessage = [...this.state.conversationHistory].reverse().find(m => m.role === 'user');
+      await this.runGeneration(ws, session, lastUserMessage?.content || '');
+    } catch (error) {
+      console.error('Error regenerating reply:', error);
+      this.sendError(ws, 'internal_error', 'Failed to regenerate reply', error);
+    }
+  }
+
+  // Change one of the user's messages, drop everything said after it and answer again
+  private async handleEditMessage(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'edit_message'>) {
+    if (this.generation) {
+      this.sendGenerationBusy(ws);
+      return;
+    }
+
+    const { messageId, content } = payload;
+
+    try {
+      const history = this.state.conversationHistory;
+      const index = history.findIndex(m => m.id === messageId && m.role === 'user');
+
+      // Only messages still in the loaded window can be edited
+      if (index === -1) {
+        this.sendError(ws, 'not_found', 'Message not found in the current conversation', messageId);
+        return;
+      }
+
+      const editedMessage: Message = { ...history[index], content };
+      const superseded = history.slice(index + 1);
+
+      this.state.conversationHistory = [...history.slice(0, index), editedMessage];
+
+      await this.env.DB.prepare(
+        'UPDATE conversations SET content = ? WHERE id = ? AND user_id = ?'
+      ).bind(content, messageId, session.userId).run();
+      await this.deleteMessages(session.userId, superseded.map(m => m.id));
+
+      // Same id, so the upsert replaces the old embedding
+      await this.vectorize.storeMessageEmbedding(session.userId, editedMessage, 'conversation');
+
+      // A summary that already covers the edited message is out of date; it is rebuilt from the history
+      if (this.state.activeThreadId && this.summaryCoveredIndex(history) >= index) {
+        this.conversationSummary = null;
+        await this.ctx.storage.delete(`${SUMMARY_STORAGE_PREFIX}${this.state.activeThreadId}`);
+      }
+
+      this.broadcast('message_updated', { messageId, content }, ws);
+
+      console.log(`[PersonalAssistant] Edited message ${messageId}, removed ${superseded.length} later message(s)`);
+
+      await this.runGeneration(ws, session, content);
+    } catch (error) {
+      console.error('Error editing message:', error);
+      this.sendError(ws, 'internal_error', 'Failed to edit message', error);
+    }
+  }
+
+  // ==================== Thread Handlers ====================
+
+  // Point new messages, history and context at another thread (or none, for a fresh conversation)
+  private async switchThread(userId: string, threadId: string | null): Promise<void> {
+    this.state.activeThreadId = threadId;
+    this.state.conversationHistory = threadId ? await this.loadConversationHistory(userId, threadId) : [];
+    this.conversationSummary = threadId ? await this.loadConversationSummary(threadId) : null;
+    await this.saveState();
+
+    console.log(`[PersonalAssistant] Active thread: ${threadId ?? '(new conversation)'}`);
+  }
+
+  private async loadConversationSummary(threadId: string): Promise<ConversationSummary | null> {
+    const summary = await this.ctx.storage.get<ConversationSummary>(`${SUMMARY_STORAGE_PREFIX}${threadId}`);
+
+    // Summaries stored before coverage was tracked by message id are rebuilt from the history
+    return summary?.coveredMessageId ? summary : null;
+  }
+
+  // Send the user's threads and which one is active
+  private async handleThreadList(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'thread_list'>) {
+    try {
+      const threads = await this.threads.listThreads(session.userId, payload.includeArchived === true);
+
+      this.send(ws, 'threads_list', {
+        threads,
+        activeThreadId: this.state.activeThreadId ?? null,
+      });
+    } catch (error) {
+      console.error('Error listing threads:', error);
+      this.sendError(ws, 'internal_error', 'Failed to list threads', error);
+    }
+  }
+
+  // Create a thread and make it active
+  private async handleThreadCreate(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'thread_create'>) {
+    // The reply being generated is written to the active thread
+    if (this.generation) {
+      this.sendGenerationBusy(ws);
+      return;
+    }
+
+    await this.ensureUser(session.userId);
+
+    try {
+      const title = payload.title?.trim()
+        ? payload.title.trim().substring(0, MAX_THREAD_TITLE_LENGTH)
+        : null;
+
+      const thread = await this.threads.createThread(session.userId, title);
+      await this.switchThread(session.userId, thread.id);
+
+      this.broadcast('thread_switched', { thread }, ws);
+    } catch (error) {
+      console.error('Error creating thread:', error);
+      this.sendError(ws, 'internal_error', 'Failed to create thread', error);
+    }
+  }
+
+  // Make an existing thread active; a null threadId starts a new conversation lazily
+  private async handleThreadSwitch(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'thread_switch'>) {
+    if (this.generation) {
+      this.sendGenerationBusy(ws);
+      return;
+    }
+
+    try {
+      const threadId = payload.threadId;
+      let thread: Thread | null = null;
+
+      if (threadId !== null) {
+        thread = await this.threads.getThread(session.userId, threadId);
+        if (!thread) {
+          this.sendError(ws, 'not_found', 'Thread not found', threadId);
+          return;
+        }
+        // Opening an archived thread brings it back into the list
+        if (thread.archived) {
+          thread = await this.threads.setArchived(session.userId, threadId, false);
+        }
+      }
+
+      await this.switchThread(session.userId, threadId);
+
+      this.broadcast('thread_switched', { thread }, ws);
+    } catch (error) {
+      console.error('Error switching thread:', error);
+      this.sendError(ws, 'internal_error', 'Failed to switch thread', error);
+    }
+  }
+
+  // Rename a thread
+  private async handleThreadRename(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'thread_rename'>) {
+    try {
+      const thread = await this.threads.renameThread(
+        session.userId,
+        payload.threadId,
+        payload.title.substring(0, MAX_THREAD_TITLE_LENGTH)
+      );
+      if (!thread) {
+        this.sendError(ws, 'not_found', 'Thread not found', payload.threadId);
+        return;
+      }
+
+      this.broadcast('thread_updated', { thread }, ws);
+    } catch (error) {
+      console.error('Error renaming thread:', error);
+      this.sendError(ws, 'internal_error', 'Failed to rename thread', error);
+    }
+  }
+
+  // Archive (or with archived: false, restore) a thread; archiving the active one leaves no thread selected
+  private async handleThreadArchive(ws: WebSocket, session: WebSocketSession, payload: ClientPayload<'thread_archive'>) {
+    // Archiving the active thread switches away from it
+    if (this.generation && payload.archived !== false && payload.threadId === this.state.activeThreadId) {
+      this.sendGenerationBusy(ws);
+      return;
+    }
+
+    try {
+      const thread = await this.threads.setArchived(session.userId, payload.threadId, payload.archived !== false);
+      if (!thread) {
+        this.sendError(ws, 'not_found', 'Thread not found', payload.threadId);
+        return;
+      }
+
+      this.broadcast('thread_updated', { thread }, ws);
+
+      if (thread.archived && this.state.activeThreadId === thread.id) {
+        await this.switchThread(session.userId, null);
+        this.broadcast('thread_switched', { thread: null }, ws);
+      }
+    } catch (error) {
+      console.error('Error archiving thread:', error);
+      this.sendError(ws, 'internal_error', 'Failed to archive thread', error);
     }
   }
 
@@ -825,20 +2162,10 @@ private async generateLLMResponse(
     try {
       const tasks = await this.listUserTasks(session.userId);
 
-      ws.send(JSON.stringify({
-        type: 'tasks_list',
-        tasks,
-        count: tasks.length,
-        timestamp: Date.now(),
-      }));
+      this.send(ws, 'tasks_list', { tasks, count: tasks.length });
     } catch (error) {
       console.error('Error listing tasks:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to list tasks',
-        details: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
-      }));
+      this.sendError(ws, 'internal_error', 'Failed to list tasks', error);
     }
   }
 
@@ -847,57 +2174,36 @@ private async generateLLMResponse(
     await this.ensureUser(session.userId);
 
     try {
-      if (!taskId) {
-        throw new Error('taskId is required');
-      }
-
-      const task = await this.completeTask(session.userId, taskId);
+      const { task, nextOccurrence } = await this.completeTask(session.userId, taskId);
 
-      ws.send(JSON.stringify({
-        type: 'task_completed',
-        task,
-        timestamp: Date.now(),
-      }));
+      this.broadcast('task_completed', { task }, ws);
+      if (nextOccurrence) {
+        this.broadcast('task_created', { task: nextOccurrence }, ws);
+      }
     } catch (error) {
       console.error('Error completing task:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to complete task',
-        details: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
-      }));
+      this.sendError(ws, 'internal_error', 'Failed to complete task', error);
     }
   }
 
   // Handle task update
-  private async handleUpdateTask(ws: WebSocket, session: WebSocketSession, data: any) {
+  private async handleUpdateTask(ws: WebSocket, session: WebSocketSession, data: ClientPayload<'update_task'>) {
     await this.ensureUser(session.userId);
 
     try {
-      if (!data.taskId) {
-        throw new Error('taskId is required');
-      }
-
       const task = await this.updateTask(session.userId, data.taskId, {
         title: data.title,
         description: data.description,
         dueDate: data.dueDate,
         priority: data.priority,
+        reminderOffsets: data.reminderOffsets,
+        recurrence: data.recurrence,
       });
 
-      ws.send(JSON.stringify({
-        type: 'task_updated',
-        task,
-        timestamp: Date.now(),
-      }));
+      this.broadcast('task_updated', { task }, ws);
     } catch (error) {
       console.error('Error updating task:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to update task',
-        details: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
-      }));
+      this.sendError(ws, 'internal_error', 'Failed to update task', error);
     }
   }
 
@@ -906,57 +2212,123 @@ private async generateLLMResponse(
     await this.ensureUser(session.userId);
 
     try {
-      if (!taskId) {
-        throw new Error('taskId is required');
-      }
-
       await this.deleteTask(session.userId, taskId);
 
-      ws.send(JSON.stringify({
-        type: 'task_deleted',
-        taskId,
-        timestamp: Date.now(),
-      }));
+      this.broadcast('task_deleted', { taskId }, ws);
     } catch (error) {
       console.error('Error deleting task:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to delete task',
-        details: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
-      }));
+      this.sendError(ws, 'internal_error', 'Failed to delete task', error);
     }
   }
 
   // Handle confirmation response from user
-  private async handleConfirmationResponse(ws: WebSocket, session: WebSocketSession, data: any) {
+  private async handleConfirmationResponse(ws: WebSocket, session: WebSocketSession, data: ClientPayload<'confirmation_response'>) {
     try {
-      const response = {
+      const editsApplied = data.decision === 'approved_with_edits' && data.editedParameters !== undefined;
+
+      const response: ConfirmationResponse = {
         requestId: data.requestId,
-        approved: data.approved,
-        timestamp: data.timestamp || Date.now(),
+        approved: data.decision ? data.decision !== 'rejected' : data.approved,
+        timestamp: data.timestamp ?? Date.now(),
+        decision: data.decision,
+        editedParameters: editsApplied ? data.editedParameters : undefined,
+        rememberChoice: data.rememberChoice === true,
+        itemApprovals: data.itemApprovals,
       };
 
-      const processed = this.confirmationHandler.handleConfirmationResponse(response);
+      const outcome = await this.confirmationHandler.handleConfirmationResponse(response);
 
-      if (processed) {
+      if (response.rememberChoice && outcome.status !== 'not_found') {
+        const toolCalls = outcome.status === 'resolved' ? outcome.toolCalls : outcome.confirmation.toolCalls;
+        const approvedNames = toolCalls.filter((_, i) => isToolCallApproved(response, i)).map(tc => tc.toolName);
+        const rejectedNames = toolCalls.filter((_, i) => !isToolCallApproved(response, i)).map(tc => tc.toolName);
+
+        if (approvedNames.length > 0) {
+          await this.saveToolPolicies(session.userId, approvedNames, 'auto_approve');
+        }
+        if (rejectedNames.length > 0) {
+          await this.saveToolPolicies(session.userId, rejectedNames, 'deny');
+        }
+      }
+
+      if (outcome.status === 'resolved') {
         console.log(`[PersonalAssistant] Confirmation response processed: ${response.requestId}`);
+      } else if (outcome.status === 'resumed') {
+        console.log(`[PersonalAssistant] Resuming stored confirmation after restart: ${response.requestId}`);
+        this.broadcast('confirmation_resolved', { requestId: response.requestId, approved: response.approved }, ws);
+        await this.resumeConfirmation(ws, session, outcome.confirmation, response);
       } else {
         console.warn(`[PersonalAssistant] Unknown confirmation request: ${response.requestId}`);
-        ws.send(JSON.stringify({
-          type: 'error',
-          error: 'Confirmation request not found or expired',
-          timestamp: Date.now(),
-        }));
+        this.sendError(ws, 'not_found', 'Confirmation request not found or expired');
       }
     } catch (error) {
       console.error('[PersonalAssistant] Error handling confirmation response:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to process confirmation response',
-        details: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
-      }));
+      this.sendError(ws, 'internal_error', 'Failed to process confirmation response', error);
+    }
+  }
+
+  // Finish a confirmation whose in-memory waiter was lost to hibernation:
+  // run (or reject) the stored tool calls, then let the model continue from their results
+  private async resumeConfirmation(
+    ws: WebSocket,
+    session: WebSocketSession,
+    confirmation: StoredConfirmation,
+    response: ConfirmationResponse
+  ) {
+    for (const [index, toolCall] of confirmation.toolCalls.entries()) {
+      // executeTool validates whichever parameters end up being used, including edited ones
+      const params = response.editedParameters?.[index] ?? toolCall.parameters;
+      const executionResult = isToolCallApproved(response, index)
+        ? await this.executeTool(session.userId, { tool: toolCall.toolName, params }, true) // Stored calls all needed the dialog
+        : { success: false, error: 'Tool execution rejected or timed out' };
+
+      await this.reportToolResult(ws, session, toolCall.toolName, executionResult);
+    }
+
+    const lastUserMessage = [...this.state.conversationHistory].reverse().find(m => m.role === 'user');
+    await this.runGeneration(ws, session, lastUserMessage?.content || '');
+  }
+
+  // Effective approval policy for a tool: the user's stored choice, else the risk-level default
+  private async getToolPolicy(userId: string, tool: ToolDefinition): Promise<ToolPolicy> {
+    try {
+      const row = await this.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+      ).bind(userId).first();
+
+      return resolveToolPolicy(tool, parseToolPolicies(row?.preferences as string | null));
+    } catch (error) {
+      // Never skip the prompt because preferences could not be read
+      console.error('[PersonalAssistant] Error loading tool policy, falling back to ask:', error);
+      return 'ask';
+    }
+  }
+
+  // Policy for one tool call; scheduling another tool also needs that tool's approval
+  private async getToolCallPolicy(userId: string, tool: ToolDefinition, params: any): Promise<ToolPolicy> {
+    const policy = await this.getToolPolicy(userId, tool);
+    const scheduledTool = tool.name === 'scheduleAction' ? getTool(params?.tool) : undefined;
+
+    return scheduledTool ? stricterToolPolicy(policy, await this.getToolPolicy(userId, scheduledTool)) : policy;
+  }
+
+  // Store the same policy for each tool ("remember this choice")
+  private async saveToolPolicies(userId: string, toolNames: string[], policy: ToolPolicy): Promise<void> {
+    try {
+      const row = await this.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+      ).bind(userId).first();
+
+      const updates = Object.fromEntries(toolNames.map(name => [name, policy]));
+      const preferences = mergeToolPolicies(row?.preferences as string | null, updates);
+
+      await this.env.DB.prepare(
+        'UPDATE users SET preferences = ?, updated_at = ? WHERE id = ?'
+      ).bind(preferences, Math.floor(Date.now() / 1000), userId).run();
+
+      console.log(`[PersonalAssistant] Saved tool policy ${policy} for: ${toolNames.join(', ')}`);
+    } catch (error) {
+      console.error('[PersonalAssistant] Error saving tool policy:', error);
     }
   }
 
@@ -1004,7 +2376,7 @@ private async generateLLMResponse(
   }
 
   // Extract JSON blocks from LLM response (tool calls) - ReDoS-safe implementation
-  private extractJSONBlocks(text: string): Array<{ tool: string; params: any }> {
+  private extractJSONBlocks(text: string): ToolCall[] {
     // Security: Limit input length to prevent ReDoS attacks (max 50KB)
     const MAX_INPUT_LENGTH = 50 * 1024;
     if (text.length > MAX_INPUT_LENGTH) {
@@ -1012,7 +2384,7 @@ private async generateLLMResponse(
       return [];
     }
 
-    const toolCalls: Array<{ tool: string; params: any }> = [];
+    const toolCalls: ToolCall[] = [];
 
     try {
       // Security: Use timeout wrapper for regex execution (max 1 second)
@@ -1052,27 +2424,188 @@ private async generateLLMResponse(
   }
 
 /**
-   * Execute tool calls with user confirmation
+   * Execute the tool calls from one model turn, asking for a single batched confirmation
+   * covering every call the user's policies don't already decide
+   *
+   * Results are returned in the same order as toolCalls
    */
   private async executeToolsWithConfirmation(
     ws: WebSocket,
     session: WebSocketSession,
-    toolCall: { tool: string; params: any }
-  ): Promise<{ success: boolean; output?: any; error?: string }> {
+    toolCalls: ToolCall[],
+    signal?: AbortSignal
+  ): Promise<Array<{ success: boolean; output?: any; error?: string }>> {
 
     try {
-      console.log('[PersonalAssistant] Preparing tool execution');
+      console.log(`[PersonalAssistant] Preparing execution of ${toolCalls.length} tool call(s)`);
+
+      const results: Array<{ success: boolean; output?: any; error?: string } | undefined> = [];
+      const toRun: number[] = [];
+      const toConfirm: number[] = [];
+      const toolCallSummaries: ToolCallSummary[] = [];
+
+      for (const [index, toolCall] of toolCalls.entries()) {
+        // Get the tool definition
+        const toolDef = getTool(toolCall.tool);
+
+        // Check if tool exists
+        if (!toolDef) {
+          console.error(`[PersonalAssistant] Tool not found: ${toolCall.tool}`);
+          results[index] = {
+            success: false,
+            error: `Tool not found: ${toolCall.tool}`,
+          };
+          continue;
+        }
 
+        // Consult the user's policy before prompting
+        const policy = await this.getToolCallPolicy(session.userId, toolDef, toolCall.params);
+
+        if (policy === 'deny') {
+          console.log(`[PersonalAssistant] Tool ${toolCall.tool} denied by user policy`);
+          results[index] = {
+            success: false,
+            error: `Tool ${toolCall.tool} is blocked by your tool policy`,
+          };
+          continue;
+        }
+
+        toRun.push(index);
+
+        if (policy === 'auto_approve') {
+          console.log(`[PersonalAssistant] Tool ${toolCall.tool} auto-approved by user policy`);
+          continue;
+        }
+
+        toConfirm.push(index);
+        toolCallSummaries.push({
+          toolName: toolCall.tool,
+          parameters: toolCall.params,
+          description: `Calling ${toolCall.tool} with ${JSON.stringify(toolCall.params)}`,
+          riskLevel: toolDef.riskLevel,
+          parameterSchema: ToolDocumentation.getJsonSchema(toolDef),
+        });
+      }
+
+      // Tool calls (by index) approved for execution, with any parameters the user edited
+      const approvedParams = new Map<number, any>(
+        toRun.filter(index => !toConfirm.includes(index)).map(index => [index, toolCalls[index].params])
+      );
+
+      if (toConfirm.length > 0) {
+        console.log(`[PersonalAssistant] Requesting confirmation for ${toolCallSummaries.map(tc => tc.toolName).join(', ')}`);
+
+        // Make sure the alarm runs to expire the stored request if the user never answers
+        await this.scheduleAlarm(Date.now() + 60000);
+
+        // Request user confirmation on every device; whichever answers first decides
+        let requestId: string | undefined;
+        // Stopping the reply withdraws the request instead of waiting for it to time out
+        const withdraw = () => requestId && this.confirmationHandler.cancelConfirmation(requestId);
+        const decision = await this.confirmationHandler.requestConfirmation(
+          session.userId,
+          JSON.stringify(toConfirm.map(index => toolCalls[index]), null, 2), // Formatted JSON for display
+          toolCallSummaries,
+          (request) => {
+            requestId = request.requestId;
+            this.broadcast('confirmation_request', request, ws);
+
+            if (signal?.aborted) {
+              withdraw();
+            } else {
+              signal?.addEventListener('abort', withdraw, { once: true });
+            }
+          },
+          60000
+        );
+        signal?.removeEventListener('abort', withdraw);
+
+        if (requestId) {
+          this.broadcast('confirmation_resolved', { requestId, approved: decision.approved });
+        }
+
+        for (const [position, index] of toConfirm.entries()) {
+          const toolCall = toolCalls[index];
+
+          if (!isToolCallApproved(decision, position)) {
+            console.log(`[PersonalAssistant] Tool ${toolCall.tool} rejected by user`);
+            results[index] = {
+              success: false,
+              error: 'Tool execution rejected or timed out',
+            };
+            continue;
+          }
+
+          const editedParams = decision.editedParameters?.[position];
+          if (editedParams) {
+            // Edited parameters come straight from the client, so re-validate before trusting them
+            const validationResult = getTool(toolCall.tool)!.parameters.safeParse(editedParams);
+            if (!validationResult.success) {
+              console.error('[PersonalAssistant] Edited parameter validation failed:', validationResult.error);
+              results[index] = {
+                success: false,
+                error: `Invalid edited parameters: ${validationResult.error.message}`,
+              };
+              continue;
+            }
+
+            console.log(`[PersonalAssistant] Tool ${toolCall.tool} approved with edited parameters`);
+          }
+
+          approvedParams.set(index, editedParams ?? toolCall.params);
+        }
+      }
+
+      // Run approved calls in the order the model issued them so later calls see earlier effects
+      for (const index of toRun) {
+        if (!approvedParams.has(index)) continue;
+
+        // A stopped generation runs nothing further; the loop ends after these results are reported
+        if (signal?.aborted) {
+          results[index] = { success: false, error: 'Generation was stopped before the tool ran' };
+          continue;
+        }
+
+        console.log(`[PersonalAssistant] Executing ${toolCalls[index].tool}`);
+        results[index] = await this.executeTool(
+          session.userId,
+          { tool: toolCalls[index].tool, params: approvedParams.get(index) },
+          toConfirm.includes(index)
+        );
+      }
+
+      return toolCalls.map((_, index) => results[index] ?? { success: false, error: 'Tool was not executed' });
+
+    } catch (error) {
+      console.error('[PersonalAssistant] Error in code execution:', error);
+      return toolCalls.map(() => ({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+    }
+  }
+
+  /**
+   * Validate and execute an approved tool call
+   * `confirmed` is true when the user approved it in a confirmation dialog rather than by policy
+   */
+  private async executeTool(
+    userId: string,
+    toolCall: ToolCall,
+    confirmed: boolean = false
+  ): Promise<{ success: boolean; output?: any; error?: string }> {
+
+    try {
       const toolContext: ToolContext = {
-        userId: session.userId,
+        userId,
         env: this.env,
         agent: this,
+        confirmed,
       };
 
       // Get the tool definition
       const toolDef = getTool(toolCall.tool);
 
-      // Check if tool exists
       if (!toolDef) {
         console.error(`[PersonalAssistant] Tool not found: ${toolCall.tool}`);
         return {
@@ -1081,40 +2614,6 @@ private async generateLLMResponse(
         };
       }
 
-      // Create tool call summary for confirmation
-      const toolCallSummary = {
-        toolName: toolCall.tool,
-        parameters: toolCall.params,
-        description: `Calling ${toolCall.tool} with ${JSON.stringify(toolCall.params)}`,
-      };
-
-      console.log(`[PersonalAssistant] Requesting confirmation for ${toolCall.tool}`);
-
-      // Request user confirmation
-      const approved = await this.confirmationHandler.requestConfirmation(
-        session.userId,
-        JSON.stringify({ tool: toolCall.tool, params: toolCall.params }, null, 2), // Formatted JSON for display
-        [toolCallSummary],
-        (request) => {
-          ws.send(JSON.stringify({
-            type: 'confirmation_request',
-            payload: request,
-            timestamp: Date.now(),
-          }));
-        },
-        60000
-      );
-
-      if (!approved) {
-        console.log('[PersonalAssistant] Tool execution rejected by user');
-        return {
-          success: false,
-          error: 'Tool execution rejected or timed out',
-        };
-      }
-
-      console.log('[PersonalAssistant] Tool execution approved, executing now');
-
       // Validate parameters with Zod schema
       const validationResult = toolDef.parameters.safeParse(toolCall.params);
       if (!validationResult.success) {
@@ -1153,9 +2652,11 @@ private async generateLLMResponse(
       this.state = stored;
       this.userId = stored.userId;
 
-      if(this.userId) {
-        this.state.conversationHistory = await this.loadConversationHistory(this.userId);
-
+      if(this.userId && this.state.activeThreadId) {
+        this.state.conversationHistory = await this.loadConversationHistory(this.userId, this.state.activeThreadId);
+        this.conversationSummary = await this.loadConversationSummary(this.state.activeThreadId);
+      } else {
+        this.state.conversationHistory = [];
       }
      
       this.rebuildSessions();
@@ -1174,6 +2675,7 @@ private async generateLLMResponse(
       
       const tags = (ws as any).tags || [];
       let userId = tags[0] || this.userId; 
+      let sessionId: string = crypto.randomUUID();
       let connectedAt = Date.now();
 
       
@@ -1181,6 +2683,7 @@ private async generateLLMResponse(
         const attachment = (ws as any).deserializeAttachment?.();
         if (attachment) {
           userId = attachment.userId || userId;
+          sessionId = attachment.sessionId || sessionId;
           connectedAt = attachment.connectedAt || connectedAt;
         }
       } catch (e) {
@@ -1191,6 +2694,7 @@ private async generateLLMResponse(
       this.sessions.set(ws, {
         webSocket: ws,
         userId,
+        sessionId,
         connectedAt,
       });
     }
@@ -1209,13 +2713,26 @@ private async generateLLMResponse(
   }
 
 
+  // Schedule the alarm for `time` unless an earlier one is already pending
+  private async scheduleAlarm(time: number): Promise<void> {
+    const current = await this.ctx.storage.getAlarm();
+    if (current === null || current > time) {
+      await this.ctx.storage.setAlarm(time);
+    }
+  }
+
   async alarm() {
     console.log('Alarm triggered for user:', this.userId);
 
     // Clean up old confirmation requests to prevent memory leaks
     this.confirmationHandler.cleanupOldConfirmations();
 
-    // Schedule next cleanup in 5 minutes
-    await this.ctx.storage.setAlarm(Date.now() + 300000);
+    // Expire persisted requests, including ones whose waiter was lost to hibernation
+    const nextExpiry = await this.confirmationHandler.expireStoredConfirmations();
+
+    // Wake up again for the next request that is still waiting on the user
+    if (nextExpiry !== null) {
+      await this.scheduleAlarm(nextExpiry);
+    }
   }
 }
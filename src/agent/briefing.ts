@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { Env, TaskWorkflowParams } from '../types/env';
+import { mergePreference, readPreference } from './preferences';
+import { zonedDateParts, zonedTimeToUnix } from './timezone';
+
+/**
+ * Daily briefing
+ *
+ * Users opt in through `briefing` in the users.preferences JSON blob. An hourly cron trigger
+ * starts a `briefing` run of TaskWorkflow for each user whose briefing time, in their
+ * users.timezone, falls within the coming hour. The run sleeps until that time, gathers
+ * overdue and due-today tasks and optionally the weather for the user's home city, has the LLM
+ * write the briefing and hands it to the user's PersonalAssistant, which stores it as a message,
+ * pushes it to open sessions and optionally emails it.
+ */
+
+export const briefingSettingsSchema = z.object({
+    enabled: z.boolean(),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'time must be HH:MM (24-hour)'), // Local time
+    homeCity: z.string().min(1).max(100).nullable(), // Adds the weather when set
+    countryCode: z.string().length(2).nullable(),
+    email: z.string().email().nullable(), // Also sends the briefing here when set
+});
+
+export type BriefingSettings = z.infer<typeof briefingSettingsSchema>;
+
+export const DEFAULT_BRIEFING: BriefingSettings = {
+    enabled: false,
+    time: '07:00',
+    homeCity: null,
+    countryCode: null,
+    email: null,
+};
+
+export const BRIEFING_SYSTEM_PROMPT = `You write a user's morning briefing as their personal assistant.
+Using only the tasks and weather you are given, write a short, friendly summary: lead with anything
+overdue, then what is due today (most important first), then the weather if present. Keep it under
+120 words, plain text, no headings. If there are no tasks, say the day is clear.`;
+
+// Tools a briefing run may ask the agent to call
+export const briefingToolRequestSchema = z.discriminatedUnion('tool', [
+    z.object({
+        userId: z.string(),
+        tool: z.literal('getWeather'),
+        params: z.object({ city: z.string(), countryCode: z.string().optional() }),
+    }),
+    z.object({
+        userId: z.string(),
+        tool: z.literal('sendEmail'),
+        params: z.object({ to: z.string(), subject: z.string(), textBody: z.string() }),
+    }),
+]);
+
+export type BriefingToolRequest = z.infer<typeof briefingToolRequestSchema>;
+
+// Body of the workflow's POST /briefing request to the agent
+export const deliverBriefingRequestSchema = z.object({
+    userId: z.string(),
+    briefingId: z.string(), // One per user and local date, so a retried delivery is recognised
+    date: z.string(), // Local date, YYYY-MM-DD
+    content: z.string().min(1),
+});
+
+export type DeliverBriefingRequest = z.infer<typeof deliverBriefingRequestSchema>;
+
+// Workflows.createBatch accepts at most 100 instances per call
+const BRIEFING_BATCH_SIZE = 100;
+
+/**
+ * Read the user's briefing settings out of a users.preferences JSON blob
+ */
+export function parseBriefingSettings(preferences: string | null | undefined): BriefingSettings {
+    return { ...DEFAULT_BRIEFING, ...readPreference(preferences, 'briefing', briefingSettingsSchema.partial(), {}) };
+}
+
+/**
+ * Set some or all of the user's briefing settings in a users.preferences JSON blob
+ */
+export function mergeBriefingSettings(
+    preferences: string | null | undefined,
+    settings: Partial<BriefingSettings>
+): string {
+    return mergePreference(preferences, 'briefing', { ...parseBriefingSettings(preferences), ...settings });
+}
+
+/**
+ * The user's briefing time if it falls in the hour starting at `hourStart`, otherwise null
+ */
+export function briefingTimeInHour(settings: BriefingSettings, timeZone: string, hourStart: number): number | null {
+    const [hour, minute] = settings.time.split(':').map(Number);
+
+    // The hour can span local midnight, so try the local dates at both ends
+    for (const moment of [hourStart, hourStart + 3599]) {
+        const runAt = zonedTimeToUnix(zonedDateParts(moment, timeZone), hour, minute, timeZone);
+        if (runAt >= hourStart && runAt < hourStart + 3600) {
+            return runAt;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Start a briefing workflow for every opted-in user whose briefing is due in the coming hour
+ * Called from the Worker's hourly scheduled handler; returns the number of workflows started.
+ */
+export async function startBriefingWorkflows(env: Env, scheduledTime: number = Date.now()): Promise<number> {
+    const hourStart = Math.floor(scheduledTime / 1000 / 3600) * 3600;
+
+    const result = await env.DB.prepare(
+        "SELECT id, timezone, preferences FROM users WHERE json_extract(preferences, '$.briefing.enabled') = 1"
+    ).all<{ id: string; timezone: string | null; preferences: string | null }>();
+
+    const due: TaskWorkflowParams[] = [];
+    for (const user of result.results || []) {
+        const runAt = briefingTimeInHour(parseBriefingSettings(user.preferences), user.timezone || 'UTC', hourStart);
+        if (runAt !== null) {
+            due.push({ userId: user.id, action: 'briefing', runAt });
+        }
+    }
+
+    for (let i = 0; i < due.length; i += BRIEFING_BATCH_SIZE) {
+        await env.TASK_WORKFLOW.createBatch(due.slice(i, i + BRIEFING_BATCH_SIZE).map(params => ({ params })));
+    }
+
+    console.log(`[Briefing] Started ${due.length} briefing workflow(s)`);
+    return due.length;
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+/**
+ * Task decomposition
+ *
+ * TaskWorkflow asks the LLM to split a task into ordered subtasks, checks the answer against
+ * `subtaskPlanSchema` and hands the subtasks to the user's PersonalAssistant, which stores them
+ * as tasks whose parent_task_id is the original task. When the parent has a due date the
+ * subtasks are spread evenly between now and that date, so each one is due before the next.
+ */
+
+export const MIN_SUBTASKS = 2;
+export const MAX_SUBTASKS = 8;
+
+export const DECOMPOSE_SYSTEM_PROMPT = `You break a task down into the concrete steps needed to finish it.
+Reply with JSON only, no other text, in this shape:
+{"subtasks": [{"title": "...", "description": "..."}]}
+List ${MIN_SUBTASKS} to ${MAX_SUBTASKS} subtasks in the order they should be done. Titles are short imperative phrases
+(at most 100 characters); descriptions are optional, one sentence.`;
+
+export const subtaskPlanSchema = z.object({
+    subtasks: z.array(z.object({
+        title: z.string().trim().min(1).max(100),
+        description: z.string().trim().max(500).optional(),
+    })).min(MIN_SUBTASKS).max(MAX_SUBTASKS),
+});
+
+export type SubtaskPlan = z.infer<typeof subtaskPlanSchema>;
+
+// Body of the workflow's POST /subtasks request to the agent
+export const createSubtasksRequestSchema = z.object({
+    userId: z.string(),
+    parentTaskId: z.string(),
+    subtasks: z.array(z.object({
+        title: z.string().min(1),
+        description: z.string().optional(),
+        dueDate: z.number().int().optional(), // Unix seconds
+    })).min(1).max(MAX_SUBTASKS),
+});
+
+export type CreateSubtasksRequest = z.infer<typeof createSubtasksRequestSchema>;
+
+/**
+ * Validate the LLM's reply, tolerating prose or a code fence around the JSON object
+ * Throws if there is no valid plan, so the workflow step retries.
+ */
+export function parseSubtaskPlan(text: string): SubtaskPlan {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new Error('Decomposition reply contained no JSON object');
+    }
+
+    const parsed = subtaskPlanSchema.safeParse(JSON.parse(text.slice(start, end + 1)));
+    if (!parsed.success) {
+        throw new Error(`Invalid decomposition reply: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    return parsed.data;
+}
+
+/**
+ * Due dates for `count` ordered subtasks, evenly spaced so the last one falls before the parent's
+ * Returns no dates when the parent has no due date or it has already passed.
+ */
+export function estimateSubtaskDueDates(
+    count: number,
+    parentDueDate: number | undefined,
+    now: number = Math.floor(Date.now() / 1000)
+): Array<number | undefined> {
+    if (!parentDueDate || parentDueDate <= now) {
+        return new Array(count).fill(undefined);
+    }
+
+    const spacing = (parentDueDate - now) / (count + 1);
+    return Array.from({ length: count }, (_, i) => Math.floor(now + spacing * (i + 1)));
+}
@@ -0,0 +1,85 @@
+import { Message } from '../types/env';
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 30;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+export interface HistoryPage {
+    messages: Message[]; // Oldest first
+    hasMore: boolean;
+    nextCursor: string | null; // Pass as `before` to get the page before this one
+}
+
+/**
+ * Load one page of a user's conversation, newest page first
+ *
+ * `before` is the id of a message; only messages stored before it are returned.
+ * `threadId` limits the page to one conversation thread.
+ * D1 timestamps have one-second resolution, so rowid breaks ties within a second.
+ */
+export async function loadConversationPage(
+    db: D1Database,
+    userId: string,
+    options: { before?: string | null; limit?: number; threadId?: string | null } = {}
+): Promise<HistoryPage> {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+
+    let query = 'SELECT id, role, content, timestamp, metadata FROM conversations WHERE user_id = ?';
+    const params: any[] = [userId];
+
+    if (options.threadId) {
+        query += ' AND thread_id = ?';
+        params.push(options.threadId);
+    }
+
+    if (options.before) {
+        const cursor = await db.prepare(
+            'SELECT timestamp, rowid FROM conversations WHERE id = ? AND user_id = ?'
+        ).bind(options.before, userId).first<{ timestamp: number; rowid: number }>();
+
+        if (!cursor) {
+            return { messages: [], hasMore: false, nextCursor: null };
+        }
+
+        query += ' AND (timestamp < ? OR (timestamp = ? AND rowid < ?))';
+        params.push(cursor.timestamp, cursor.timestamp, cursor.rowid);
+    }
+
+    // One extra row tells us whether there is another page
+    query += ' ORDER BY timestamp DESC, rowid DESC LIMIT ?';
+    params.push(limit + 1);
+
+    const result = await db.prepare(query).bind(...params).all();
+    const rows = result.results || [];
+    const hasMore = rows.length > limit;
+
+    const messages: Message[] = rows.slice(0, limit).reverse().map(row => ({
+        id: row.id as string,
+        role: row.role as 'user' | 'assistant' | 'system',
+        content: row.content as string,
+        timestamp: (row.timestamp as number) * 1000,
+        metadata: row.metadata ? JSON.parse(row.metadata as string) : undefined,
+    }));
+
+    return {
+        messages,
+        hasMore,
+        nextCursor: hasMore && messages.length > 0 ? messages[0].id : null,
+    };
+}
+
+/**
+ * Shape stored messages for display in the chat
+ * Tool-call turns keep only the prose before their JSON blocks and are dropped if nothing is left
+ */
+export function toDisplayMessages(messages: Message[]): Message[] {
+    return messages.flatMap(message => {
+        if (message.role !== 'assistant' || message.metadata?.type !== 'tool_calls') {
+            return [message];
+        }
+
+        const fenceIndex = message.content.indexOf('```');
+        const content = (fenceIndex === -1 ? message.content : message.content.slice(0, fenceIndex)).trim();
+
+        return content ? [{ ...message, content }] : [];
+    });
+}
@@ -0,0 +1,184 @@
+import { Env } from '../types/env';
+import { VectorizeManager, chunkText } from './vectorize';
+
+export interface KnowledgeEntry {
+    id: string;
+    userId: string;
+    title: string | null;
+    content: string;
+    chunkCount: number; // Chunks with a stored embedding
+    createdAt: number;
+}
+
+export const MAX_KNOWLEDGE_TITLE_LENGTH = 200;
+export const MAX_KNOWLEDGE_CONTENT_LENGTH = 20000;
+
+interface KnowledgeRow {
+    id: string;
+    user_id: string;
+    title: string | null;
+    content: string;
+    vector_id: string | null;
+    created_at: number;
+}
+
+/**
+ * Knowledge base entries for RAG
+ *
+ * Content is stored whole in D1 and split into chunks for Vectorize.
+ * `vector_id` holds a JSON array of the chunk vector ids so they can be removed later.
+ */
+export class KnowledgeManager {
+    private env: Env;
+    private vectorize: VectorizeManager;
+
+    constructor(env: Env) {
+        this.env = env;
+        this.vectorize = new VectorizeManager(env);
+    }
+
+    /**
+     * Create an entry and embed its chunks
+     */
+    async createEntry(userId: string, title: string | null, content: string): Promise<KnowledgeEntry> {
+        const id = crypto.randomUUID();
+        const now = Math.floor(Date.now() / 1000);
+
+        const vectorIds = await this.embedChunks(userId, id, title, content);
+
+        await this.env.DB.prepare(
+            'INSERT INTO knowledge_entries (id, user_id, title, content, vector_id, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+        ).bind(id, userId, title, content, JSON.stringify(vectorIds), now).run();
+
+        console.log(`[Knowledge] Created entry ${id} with ${vectorIds.length} embedded chunk(s)`);
+
+        return { id, userId, title, content, chunkCount: vectorIds.length, createdAt: now };
+    }
+
+    /**
+     * List a user's entries, newest first
+     */
+    async listEntries(userId: string, limit: number = 50): Promise<KnowledgeEntry[]> {
+        const result = await this.env.DB.prepare(
+            'SELECT * FROM knowledge_entries WHERE user_id = ? ORDER BY created_at DESC LIMIT ?'
+        ).bind(userId, limit).all<KnowledgeRow>();
+
+        return (result.results || []).map(row => this.toEntry(row));
+    }
+
+    /**
+     * Get a single entry, or null if it doesn't exist for this user
+     */
+    async getEntry(userId: string, entryId: string): Promise<KnowledgeEntry | null> {
+        const row = await this.getRow(userId, entryId);
+        return row ? this.toEntry(row) : null;
+    }
+
+    /**
+     * Update an entry's title and/or content
+     * Changed content is re-chunked and re-embedded; the old vectors are removed
+     */
+    async updateEntry(
+        userId: string,
+        entryId: string,
+        updates: { title?: string | null; content?: string }
+    ): Promise<KnowledgeEntry | null> {
+        const row = await this.getRow(userId, entryId);
+        if (!row) {
+            return null;
+        }
+
+        const title = updates.title !== undefined ? updates.title : row.title;
+        const content = updates.content ?? row.content;
+        let vectorIds = this.parseVectorIds(row.vector_id);
+
+        // The title is part of every chunk's metadata, so either change means re-embedding
+        if (content !== row.content || title !== row.title) {
+            await this.deleteVectors(vectorIds);
+            vectorIds = await this.embedChunks(userId, entryId, title, content);
+        }
+
+        await this.env.DB.prepare(
+            'UPDATE knowledge_entries SET title = ?, content = ?, vector_id = ? WHERE id = ? AND user_id = ?'
+        ).bind(title, content, JSON.stringify(vectorIds), entryId, userId).run();
+
+        console.log(`[Knowledge] Updated entry ${entryId}`);
+
+        return this.toEntry({ ...row, title, content, vector_id: JSON.stringify(vectorIds) });
+    }
+
+    /**
+     * Delete an entry and its vectors
+     * Returns false if the entry doesn't exist for this user
+     */
+    async deleteEntry(userId: string, entryId: string): Promise<boolean> {
+        const row = await this.getRow(userId, entryId);
+        if (!row) {
+            return false;
+        }
+
+        await this.deleteVectors(this.parseVectorIds(row.vector_id));
+
+        await this.env.DB.prepare(
+            'DELETE FROM knowledge_entries WHERE id = ? AND user_id = ?'
+        ).bind(entryId, userId).run();
+
+        console.log(`[Knowledge] Deleted entry ${entryId}`);
+        return true;
+    }
+
+    /**
+     * Chunk and embed content, returning the ids of the vectors that were stored
+     */
+    private async embedChunks(userId: string, entryId: string, title: string | null, content: string): Promise<string[]> {
+        const chunks = chunkText(content);
+
+        const stored = await Promise.all(chunks.map((chunk, index) => {
+            const vectorId = `${entryId}:${index}`;
+            return this.vectorize.storeKnowledge(userId, vectorId, chunk, {
+                entryId,
+                chunkIndex: index,
+                title: title || '',
+            }).then(success => (success ? vectorId : null));
+        }));
+
+        return stored.filter((vectorId): vectorId is string => vectorId !== null);
+    }
+
+    private async deleteVectors(vectorIds: string[]): Promise<void> {
+        if (vectorIds.length > 0 && this.env.VECTORIZE) {
+            await this.vectorize.deleteEmbeddings(vectorIds);
+        }
+    }
+
+    private async getRow(userId: string, entryId: string): Promise<KnowledgeRow | null> {
+        return this.env.DB.prepare(
+            'SELECT * FROM knowledge_entries WHERE id = ? AND user_id = ?'
+        ).bind(entryId, userId).first<KnowledgeRow>();
+    }
+
+    private parseVectorIds(value: string | null): string[] {
+        if (!value) {
+            return [];
+        }
+
+        try {
+            const parsed = JSON.parse(value);
+            return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+        } catch {
+            // Single id written before entries were chunked
+            return [value];
+        }
+    }
+
+    private toEntry(row: KnowledgeRow): KnowledgeEntry {
+        return {
+            id: row.id,
+            userId: row.user_id,
+            title: row.title,
+            content: row.content,
+            chunkCount: this.parseVectorIds(row.vector_id).length,
+            createdAt: row.created_at,
+        };
+    }
+}
@@ -5,6 +5,7 @@ export interface MemoryOptions {
     maxMessages?: number;
     maxTokens?: number;
     systemPrompt?: string;
+    summary?: string; // Rolling summary of messages that no longer fit the window
 }
 
 export interface ConversationContext {
@@ -12,6 +13,23 @@ export interface ConversationContext {
     systemPrompt?: string;
     totalTokens: number;
     truncated: boolean;
+    evictedMessages: Message[]; // Older messages left out of the window, oldest first
+}
+
+/**
+ * Rolling summary of the messages evicted from the context window
+ */
+export interface ConversationSummary {
+    content: string;
+    coveredMessageId: string; // Id of the newest message folded into the summary
+    messageCount: number;
+    updatedAt: number;
+}
+
+export interface SummarizeOptions {
+    ai: Ai;
+    model?: string;
+    previousSummary?: string;
 }
 /**
  * MemoryManager utilities for conversation context
@@ -20,6 +38,9 @@ export class MemoryManager {
     private readonly DEFAULT_MAX_MESSAGES = 50;
     private readonly DEFAULT_MAX_TOKENS = 4000;
     private readonly CHARS_PER_TOKEN = 4; 
+    private readonly RAG_HISTORY_SHARE = 0.7;
+    private readonly SUMMARY_MAX_TOKENS = 400;
+    private readonly SUMMARY_MESSAGE_CHARS = 1000; // Long tool results are cut before summarizing
 
 
     /**
@@ -53,6 +74,11 @@ export class MemoryManager {
 
         }
 
+        const summaryMessage = options.summary ? this.createSummaryMessage(options.summary) : null;
+        if (summaryMessage) {
+            totalTokens += this.estimateTokens(summaryMessage.content);
+        }
+
         for (let i= recentMessages.length - 1; i >= 0; i--) {
             const msg = recentMessages[i];
             const msgTokens = this.estimateTokens(msg.content);
@@ -66,11 +92,39 @@ export class MemoryManager {
             totalTokens += msgTokens;
         }
 
+        // The window is always a suffix of the history, so everything before it was evicted
+        const evictedMessages = messages.slice(0, messages.length - contextMessages.length);
+
+        if (summaryMessage) {
+            contextMessages.unshift(summaryMessage);
+        }
+
         return {
             messages: contextMessages,
             systemPrompt: options.systemPrompt,
             totalTokens,
-            truncated
+            truncated: truncated || evictedMessages.length > 0,
+            evictedMessages,
+        };
+    }
+
+    /**
+     * Messages that fall outside the window of either buildContext or prepareRAGContext
+     * Uses the smaller RAG budget so the summary covers whatever either path drops
+     */
+    getEvictedMessages(messages: Message[], options: MemoryOptions = {}): Message[] {
+        return this.buildContext(messages, {
+            ...options,
+            maxTokens: (options.maxTokens || this.DEFAULT_MAX_TOKENS) * this.RAG_HISTORY_SHARE,
+        }).evictedMessages;
+    }
+
+    private createSummaryMessage(summary: string): Message {
+        return {
+            id: 'conversation-summary',
+            role: 'system',
+            content: `Summary of the earlier conversation:\n${summary}`,
+            timestamp: 0,
         };
     }
 
@@ -99,26 +153,40 @@ export class MemoryManager {
 
 
     /**
-     * Summarize conversation history for long-term memory
-     * (Placeholder - will be enhanced with LLM in Phase 3)
+     * Fold messages into a rolling summary with Workers AI
+     * Only the new messages are sent along with the previous summary, so the cost
+     * stays flat however long the conversation gets
      */
-    async summarizeConversation(messages: Message[]): Promise<string> {
-        if(messages.length === 0) {
-            return "No conversation history.";  
+    async summarizeConversation(messages: Message[], options: SummarizeOptions): Promise<string> {
+        if (messages.length === 0) {
+            return options.previousSummary || '';
         }
 
-        const userMessages = messages.filter(m => m.role === 'user')
-        const topics = new Set<string>();
+        const model = (options.model || '@cf/meta/llama-3.3-70b-instruct-fp8-fast') as unknown as keyof AiModels;
 
-        userMessages.forEach(msg => {
-            const words = msg.content.toLowerCase().split(/\s+/);
-            words.forEach(word => {
-                if (word.length > 5) {
-                    topics.add(word);
-                }
-            });
-        });
-        return `Conversation covered ${userMessages.length} user messages discussing: ${Array.from(topics).slice(0, 5).join(', ')}`;
+        const transcript = messages
+            .map(msg => `${msg.role}: ${msg.content.substring(0, this.SUMMARY_MESSAGE_CHARS)}`)
+            .join('\n');
+
+        const prompt = options.previousSummary
+            ? `Existing summary:\n${options.previousSummary}\n\nNew messages:\n${transcript}`
+            : `Messages:\n${transcript}`;
+
+        const response = await options.ai.run(model, {
+            messages: [
+                { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+                { role: 'user', content: prompt },
+            ],
+            max_tokens: this.SUMMARY_MAX_TOKENS,
+            temperature: 0.2,
+        }) as { response?: string };
+
+        const summary = response?.response?.trim();
+        if (!summary) {
+            throw new Error('Summarization returned no text');
+        }
+
+        return summary;
     }
 
     /**
@@ -178,7 +246,7 @@ export class MemoryManager {
     ): ConversationContext {
         const baseContext = this.buildContext(conversationMessages, {
             ...options,
-            maxTokens: (options.maxTokens || this.DEFAULT_MAX_TOKENS) * 0.7,
+            maxTokens: (options.maxTokens || this.DEFAULT_MAX_TOKENS) * this.RAG_HISTORY_SHARE,
         });
 
          if (retrievedContext.length > 0) {
@@ -199,6 +267,18 @@ export class MemoryManager {
 
 }
 
+/**
+ * Instructions for folding evicted messages into the rolling summary
+ */
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and their personal assistant.
+Update the existing summary (if any) with the new messages and reply with the updated summary only.
+
+- Keep facts the user shared about themselves, their preferences, people, dates and decisions
+- Keep tasks, reminders and emails that were created, changed or discussed, and their outcomes
+- Drop greetings, small talk and raw tool output
+- Write short plain sentences in the third person ("The user ...")
+- Stay under 250 words`;
+
 /**
  * Default system prompt for personal assistant with tool calling
  */
@@ -223,6 +303,8 @@ export const DEFAULT_SYSTEM_PROMPT = `You are a helpful personal assistant. You
   2. Specify the tool name and parameters
   3. Tool will be executed after user approval
   4. You can call multiple tools in sequence
+  5. Each result is added to the conversation as a system message starting with "Tool result for"
+  6. After reading the results, either call the next tool you need or answer the user in plain language
 
   ## Example Responses:
 
@@ -281,8 +363,35 @@ export const DEFAULT_SYSTEM_PROMPT = `You are a helpful personal assistant. You
   - **Always explain** what you're doing before calling a tool
   - **One tool per JSON block**: Makes approval easier
   - **Valid JSON only**: Ensure proper JSON formatting
+  - **Use tool results**: Summarize what a tool returned instead of repeating the raw data, and never repeat a tool call that already succeeded
 
   Be concise, friendly, and helpful. If you're unsure about something, say so.
   When a user asks you to perform an action, explain what you'll do and include the appropriate tool call.`;
 
+/**
+ * System prompt used when tools are passed to the model through native function calling
+ */
+export const NATIVE_TOOLS_SYSTEM_PROMPT = `You are a helpful personal assistant. You can:
+  - Answer questions and have conversations
+  - Help manage tasks and reminders
+  - Provide information and assistance
+
+  # Tools
+
+  You have access to tools for task management, weather lookup and sending emails.
+  When the user asks for one of those actions, call the matching tool through function calling.
+  Tool calls will be shown to the user for approval before execution.
+
+  Each result is added to the conversation as a system message starting with "Tool result for".
+  After reading the results, either call the next tool you need or answer the user in plain language.
+
+  ## Guidelines:
+
+  - **Use tools for actions**: Task management, weather lookup, sending emails
+  - **Use conversation for**: Answering questions, providing information, casual chat
+  - **Use tool results**: Summarize what a tool returned instead of repeating the raw data, and never repeat a tool call that already succeeded
+  - **Dates**: Pass due dates as ISO 8601 strings
+
+  Be concise, friendly, and helpful. If you're unsure about something, say so.`;
+
 export const memoryManager = new MemoryManager();
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * User preferences
+ *
+ * users.preferences is one JSON object with each feature's settings under its own key
+ * (`toolPolicies`, `reminderOffsets`, `retention`, `briefing`). A blob or value that can't be
+ * read falls back to the feature's defaults, so a bad write never breaks the features reading it.
+ */
+
+/**
+ * Read one key of a users.preferences JSON blob, or `fallback` if it is missing or invalid
+ */
+export function readPreference<T>(
+    preferences: string | null | undefined,
+    key: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    fallback: T
+): T {
+    const parsed = schema.safeParse(parsePreferences(preferences)[key]);
+    return parsed.success ? parsed.data : fallback;
+}
+
+/**
+ * Set one key of a users.preferences JSON blob, keeping the others
+ * An unparseable blob is replaced.
+ */
+export function mergePreference(preferences: string | null | undefined, key: string, value: unknown): string {
+    return JSON.stringify({ ...parsePreferences(preferences), [key]: value });
+}
+
+function parsePreferences(preferences: string | null | undefined): Record<string, unknown> {
+    if (!preferences) {
+        return {};
+    }
+
+    try {
+        const parsed = JSON.parse(preferences);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+        console.warn('[Preferences] Failed to parse user preferences:', error);
+        return {};
+    }
+}
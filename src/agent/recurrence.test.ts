@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { anchorRecurrence, describeRecurrence, nextOccurrence, parseRRule, toRRule } from './recurrence';
+
+// Unix seconds for a UTC date and time; months are 1-based
+const utc = (year: number, month: number, day: number, hour = 9, minute = 0) =>
+    Date.UTC(year, month - 1, day, hour, minute) / 1000;
+
+const dates = (timestamps: number[]) => timestamps.map(ts => new Date(ts * 1000).toISOString());
+
+// Follow a series from `dueDate` for `n` occurrences, as completing each task in time would
+function series(rule: Parameters<typeof nextOccurrence>[0], dueDate: number, n: number): number[] {
+    const result: number[] = [];
+    let current = { dueDate, recurrence: rule };
+    for (let i = 0; i < n; i++) {
+        const next = nextOccurrence(current.recurrence, current.dueDate, current.dueDate);
+        if (!next) break;
+        result.push(next.dueDate);
+        current = next;
+    }
+    return result;
+}
+
+describe('toRRule and parseRRule', () => {
+    it('round-trip a rule', () => {
+        const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: ['MO' as const, 'WE' as const], count: 4 };
+        expect(toRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4');
+        expect(parseRRule(toRRule(rule))).toEqual(rule);
+    });
+
+    it('round-trip an end date', () => {
+        const rule = { frequency: 'monthly' as const, interval: 1, byMonthDay: 31, until: utc(2026, 6, 30, 23, 59) };
+        expect(toRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;UNTIL=20260630T235900Z');
+        expect(parseRRule(toRRule(rule))).toEqual(rule);
+    });
+
+    it('parse date-only UNTIL values and an RRULE: prefix', () => {
+        expect(parseRRule('RRULE:FREQ=DAILY;UNTIL=20260301')).toEqual({ frequency: 'daily', until: utc(2026, 3, 1, 0) });
+    });
+
+    it('reject empty and unsupported rules', () => {
+        expect(parseRRule(null)).toBeNull();
+        expect(parseRRule('')).toBeNull();
+        expect(parseRRule('FREQ=YEARLY')).toBeNull();
+        expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+        expect(parseRRule('FREQ=DAILY;BYDAY=MO')).toBeNull();
+        expect(parseRRule('FREQ=WEEKLY;BYMONTHDAY=3')).toBeNull();
+        expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20260301')).toBeNull();
+    });
+});
+
+describe('nextOccurrence', () => {
+    it('steps daily and weekly rules by their interval, keeping the time of day', () => {
+        expect(dates(series({ frequency: 'daily', interval: 3 }, utc(2026, 2, 27), 2)))
+            .toEqual(['2026-03-02T09:00:00.000Z', '2026-03-05T09:00:00.000Z']);
+        expect(dates(series({ frequency: 'weekly' }, utc(2026, 12, 28), 1)))
+            .toEqual(['2027-01-04T09:00:00.000Z']);
+    });
+
+    it('visits the listed weekdays in weeks on the interval', () => {
+        // Monday 2026-01-05, every other week on Monday and Wednesday
+        const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: ['MO' as const, 'WE' as const] };
+        expect(dates(series(rule, utc(2026, 1, 5), 4))).toEqual([
+            '2026-01-07T09:00:00.000Z',
+            '2026-01-19T09:00:00.000Z',
+            '2026-01-21T09:00:00.000Z',
+            '2026-02-02T09:00:00.000Z',
+        ]);
+    });
+
+    it('clamps a monthly rule to short months and returns to its anchored day', () => {
+        const start = utc(2026, 1, 31);
+        const rule = anchorRecurrence({ frequency: 'monthly' }, start);
+        expect(rule.byMonthDay).toBe(31);
+        expect(dates(series(rule, start, 4))).toEqual([
+            '2026-02-28T09:00:00.000Z',
+            '2026-03-31T09:00:00.000Z',
+            '2026-04-30T09:00:00.000Z',
+            '2026-05-31T09:00:00.000Z',
+        ]);
+    });
+
+    it('uses Feb 29 in leap years', () => {
+        const start = utc(2028, 1, 30);
+        expect(dates(series(anchorRecurrence({ frequency: 'monthly' }, start), start, 2)))
+            .toEqual(['2028-02-29T09:00:00.000Z', '2028-03-30T09:00:00.000Z']);
+    });
+
+    it('drifts to the clamped day when the rule is not anchored', () => {
+        expect(dates(series({ frequency: 'monthly' }, utc(2026, 1, 31), 2)))
+            .toEqual(['2026-02-28T09:00:00.000Z', '2026-03-28T09:00:00.000Z']);
+    });
+
+    it('rolls monthly rules over the end of the year', () => {
+        expect(dates(series({ frequency: 'monthly', interval: 3, byMonthDay: 15 }, utc(2026, 11, 15), 1)))
+            .toEqual(['2027-02-15T09:00:00.000Z']);
+    });
+
+    it('skips occurrences already past, using up the count', () => {
+        const next = nextOccurrence({ frequency: 'daily', count: 20 }, utc(2026, 1, 1), utc(2026, 1, 10, 12));
+        expect(next).toEqual({ dueDate: utc(2026, 1, 11), recurrence: { frequency: 'daily', count: 10 } });
+    });
+
+    it('ends the series when the count runs out', () => {
+        expect(nextOccurrence({ frequency: 'daily', count: 2 }, utc(2026, 1, 1), 0))
+            .toEqual({ dueDate: utc(2026, 1, 2), recurrence: { frequency: 'daily', count: 1 } });
+        expect(nextOccurrence({ frequency: 'daily', count: 1 }, utc(2026, 1, 1), 0)).toBeNull();
+        expect(nextOccurrence({ frequency: 'daily', count: 3 }, utc(2026, 1, 1), utc(2026, 1, 5))).toBeNull();
+    });
+
+    it('ends the series after its end date', () => {
+        const rule = { frequency: 'weekly' as const, until: utc(2026, 1, 15, 0) };
+        expect(nextOccurrence(rule, utc(2026, 1, 1), 0)?.dueDate).toBe(utc(2026, 1, 8));
+        expect(nextOccurrence(rule, utc(2026, 1, 8), 0)).toBeNull();
+    });
+});
+
+describe('describeRecurrence', () => {
+    it('summarises a rule in plain words', () => {
+        expect(describeRecurrence({ frequency: 'daily' })).toBe('every day');
+        expect(describeRecurrence({ frequency: 'weekly', interval: 2, byWeekday: ['MO', 'WE'], count: 3 }))
+            .toBe('every 2 weeks on MO, WE (3 left)');
+        expect(describeRecurrence({ frequency: 'monthly', byMonthDay: 31, until: utc(2026, 6, 30) }))
+            .toBe('every month on day 31 until 2026-06-30');
+    });
+});
@@ -0,0 +1,167 @@
+import { Recurrence, recurrenceSchema, weekdaySchema } from '../protocol/websocket';
+
+/**
+ * Recurring tasks
+ *
+ * A recurring task is one occurrence of its series. Completing it creates the next occurrence as a
+ * new task, due at the next date of the rule, which D1 stores as an RRULE string
+ * (e.g. `FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=4`). Dates are computed in UTC and keep the
+ * time of day of the current due date. `count` is the number of occurrences left, so each new
+ * occurrence carries one less.
+ */
+
+type Weekday = Recurrence['byWeekday'] extends Array<infer W> | undefined ? W : never;
+
+const WEEKDAYS = weekdaySchema.options; // Monday first
+const DAY_SECONDS = 24 * 60 * 60;
+const FREQUENCIES = { daily: 'DAILY', weekly: 'WEEKLY', monthly: 'MONTHLY' } as const;
+
+// Upper bound on occurrences skipped when a task is completed long after it was due
+const MAX_SKIPPED_OCCURRENCES = 1000;
+
+/**
+ * Serialize a rule for the tasks.recurrence column
+ */
+export function toRRule(rule: Recurrence): string {
+    const parts = [`FREQ=${FREQUENCIES[rule.frequency]}`, `INTERVAL=${rule.interval ?? 1}`];
+
+    if (rule.byWeekday) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+    if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+    if (rule.until !== undefined) parts.push(`UNTIL=${new Date(rule.until * 1000).toISOString().replace(/[-:]|\.\d{3}/g, '')}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+
+    return parts.join(';');
+}
+
+/**
+ * Parse a tasks.recurrence value, or null if it is empty or not a supported rule
+ */
+export function parseRRule(value: string | null | undefined): Recurrence | null {
+    if (!value) {
+        return null;
+    }
+
+    const fields = new Map(value.replace(/^RRULE:/, '').split(';').map(part => part.split('=') as [string, string]));
+    const frequency = Object.entries(FREQUENCIES).find(([, freq]) => freq === fields.get('FREQ'))?.[0];
+    const until = fields.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+
+    const parsed = recurrenceSchema.safeParse({
+        frequency,
+        interval: fields.has('INTERVAL') ? Number(fields.get('INTERVAL')) : undefined,
+        byWeekday: fields.get('BYDAY')?.split(','),
+        byMonthDay: fields.has('BYMONTHDAY') ? Number(fields.get('BYMONTHDAY')) : undefined,
+        until: until
+            ? Date.UTC(+until[1], +until[2] - 1, +until[3], +(until[4] ?? 0), +(until[5] ?? 0), +(until[6] ?? 0)) / 1000
+            : undefined,
+        count: fields.has('COUNT') ? Number(fields.get('COUNT')) : undefined,
+    });
+
+    return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Pin a monthly rule to the day of month it starts on, so a series begun on the 31st
+ * returns to the 31st after passing through shorter months
+ */
+export function anchorRecurrence(rule: Recurrence, dueDate: number): Recurrence {
+    if (rule.frequency === 'monthly' && rule.byMonthDay === undefined) {
+        return { ...rule, byMonthDay: new Date(dueDate * 1000).getUTCDate() };
+    }
+    return rule;
+}
+
+/**
+ * The occurrence after the one due at `dueDate`, skipping any that are already past `now`
+ * Returns null when the series has ended.
+ */
+export function nextOccurrence(
+    rule: Recurrence,
+    dueDate: number,
+    now: number = Math.floor(Date.now() / 1000)
+): { dueDate: number; recurrence: Recurrence } | null {
+    let next = dueDate;
+    let count = rule.count;
+
+    for (let i = 0; i < MAX_SKIPPED_OCCURRENCES; i++) {
+        if (count !== undefined && --count < 1) {
+            return null;
+        }
+
+        next = step(rule, next);
+
+        if (rule.until !== undefined && next > rule.until) {
+            return null;
+        }
+        if (next > now) {
+            return { dueDate: next, recurrence: { ...rule, count } };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Plain-words summary of a rule, e.g. "every 2 weeks on MO, WE (3 left)"
+ */
+export function describeRecurrence(rule: Recurrence): string {
+    const interval = rule.interval ?? 1;
+    const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+
+    let text = interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+    if (rule.byWeekday) text += ` on ${rule.byWeekday.join(', ')}`;
+    if (rule.byMonthDay !== undefined) text += ` on day ${rule.byMonthDay}`;
+    if (rule.until !== undefined) text += ` until ${new Date(rule.until * 1000).toISOString().slice(0, 10)}`;
+    if (rule.count !== undefined) text += ` (${rule.count} left)`;
+
+    return text;
+}
+
+// The next date in the series after `from`
+function step(rule: Recurrence, from: number): number {
+    const interval = rule.interval ?? 1;
+
+    switch (rule.frequency) {
+        case 'daily':
+            return from + interval * DAY_SECONDS;
+
+        case 'weekly': {
+            if (!rule.byWeekday) {
+                return from + interval * 7 * DAY_SECONDS;
+            }
+
+            // Walk forward a day at a time to the next listed weekday in a week that is on the interval
+            const days = new Set<Weekday>(rule.byWeekday);
+            for (let offset = 1; offset <= 7 * (interval + 1); offset++) {
+                const candidate = from + offset * DAY_SECONDS;
+                const weeksApart = Math.round((startOfWeek(candidate) - startOfWeek(from)) / (7 * DAY_SECONDS));
+                if (weeksApart % interval === 0 && days.has(weekday(candidate))) {
+                    return candidate;
+                }
+            }
+            return from + interval * 7 * DAY_SECONDS; // Unreachable with a valid rule
+        }
+
+        case 'monthly': {
+            const date = new Date(from * 1000);
+            const month = date.getUTCMonth() + interval;
+            const year = date.getUTCFullYear();
+            const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+            const day = Math.min(rule.byMonthDay ?? date.getUTCDate(), lastDay);
+
+            return Date.UTC(
+                year, month, day,
+                date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()
+            ) / 1000;
+        }
+    }
+}
+
+function weekday(timestamp: number): Weekday {
+    return WEEKDAYS[(new Date(timestamp * 1000).getUTCDay() + 6) % 7];
+}
+
+// Midnight UTC on the Monday of the timestamp's week
+function startOfWeek(timestamp: number): number {
+    const dayStart = Math.floor(timestamp / DAY_SECONDS) * DAY_SECONDS;
+    return dayStart - WEEKDAYS.indexOf(weekday(timestamp)) * DAY_SECONDS;
+}
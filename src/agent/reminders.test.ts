@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_REMINDER_OFFSETS,
+    describeReminderOffset,
+    mergeDefaultReminderOffsets,
+    normalizeReminderOffsets,
+    parseDefaultReminderOffsets,
+    parseReminderOffsets,
+} from './reminders';
+
+describe('normalizeReminderOffsets', () => {
+    it('drops duplicates and puts the earliest reminder first', () => {
+        expect(normalizeReminderOffsets([0, 60, 1440, 60])).toEqual([1440, 60, 0]);
+    });
+});
+
+describe('parseReminderOffsets', () => {
+    it('accepts a JSON column value or an array', () => {
+        expect(parseReminderOffsets('[15, 60]')).toEqual([60, 15]);
+        expect(parseReminderOffsets([0])).toEqual([0]);
+        expect(parseReminderOffsets('[]')).toEqual([]);
+    });
+
+    it('rejects missing, malformed and out-of-range values', () => {
+        expect(parseReminderOffsets(null)).toBeNull();
+        expect(parseReminderOffsets('not json')).toBeNull();
+        expect(parseReminderOffsets('{"minutes": 60}')).toBeNull();
+        expect(parseReminderOffsets([-5])).toBeNull();
+        expect(parseReminderOffsets([1.5])).toBeNull();
+        expect(parseReminderOffsets([31 * 24 * 60])).toBeNull();
+        expect(parseReminderOffsets([1, 2, 3, 4, 5, 6])).toBeNull();
+    });
+});
+
+describe('parseDefaultReminderOffsets', () => {
+    it('reads the user default out of the preferences blob', () => {
+        expect(parseDefaultReminderOffsets('{"reminderOffsets": [10, 120]}')).toEqual([120, 10]);
+    });
+
+    it('falls back to the built-in default', () => {
+        expect(parseDefaultReminderOffsets(null)).toEqual(DEFAULT_REMINDER_OFFSETS);
+        expect(parseDefaultReminderOffsets('{broken')).toEqual(DEFAULT_REMINDER_OFFSETS);
+        expect(parseDefaultReminderOffsets('{"reminderOffsets": "soon"}')).toEqual(DEFAULT_REMINDER_OFFSETS);
+    });
+});
+
+describe('mergeDefaultReminderOffsets', () => {
+    it('keeps the other preferences', () => {
+        const merged = mergeDefaultReminderOffsets('{"retention": {"days": 30}}', [5, 60, 5]);
+        expect(JSON.parse(merged)).toEqual({ retention: { days: 30 }, reminderOffsets: [60, 5] });
+    });
+});
+
+describe('describeReminderOffset', () => {
+    it('uses the largest whole unit', () => {
+        expect(describeReminderOffset(0)).toBe('now');
+        expect(describeReminderOffset(1)).toBe('in 1 minute');
+        expect(describeReminderOffset(90)).toBe('in 90 minutes');
+        expect(describeReminderOffset(60)).toBe('in 1 hour');
+        expect(describeReminderOffset(36 * 60)).toBe('in 36 hours');
+        expect(describeReminderOffset(2 * 24 * 60)).toBe('in 2 days');
+    });
+});
@@ -0,0 +1,71 @@
+import { reminderOffsetsSchema } from '../protocol/websocket';
+import { mergePreference, readPreference } from './preferences';
+
+/**
+ * Reminder offsets are minutes before a task's due date; 0 reminds at the due time.
+ * A task either carries its own list or falls back to the user's default,
+ * stored as `reminderOffsets` in the users.preferences JSON blob.
+ */
+
+// A day ahead, plus an hour ahead so tasks due sooner than that still get one
+export const DEFAULT_REMINDER_OFFSETS = [24 * 60, 60];
+
+/**
+ * Drop duplicates and order the offsets so the earliest reminder comes first
+ */
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+    return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+/**
+ * Parse an offsets column or preference value, or null if it is missing or invalid
+ */
+export function parseReminderOffsets(value: unknown): number[] | null {
+    let data = value;
+    if (typeof value === 'string') {
+        try {
+            data = JSON.parse(value);
+        } catch {
+            return null;
+        }
+    }
+
+    const parsed = reminderOffsetsSchema.safeParse(data);
+    return parsed.success ? normalizeReminderOffsets(parsed.data) : null;
+}
+
+/**
+ * Read the user's default offsets out of a users.preferences JSON blob
+ */
+export function parseDefaultReminderOffsets(preferences: string | null | undefined): number[] {
+    return readPreference(
+        preferences,
+        'reminderOffsets',
+        reminderOffsetsSchema.transform(normalizeReminderOffsets),
+        DEFAULT_REMINDER_OFFSETS
+    );
+}
+
+/**
+ * Set the user's default offsets in a users.preferences JSON blob
+ */
+export function mergeDefaultReminderOffsets(preferences: string | null | undefined, offsets: number[]): string {
+    return mergePreference(preferences, 'reminderOffsets', normalizeReminderOffsets(offsets));
+}
+
+/**
+ * How far ahead of the due date an offset is, for reminder text: "in 1 day", "in 2 hours", "now"
+ */
+export function describeReminderOffset(minutes: number): string {
+    if (minutes === 0) {
+        return 'now';
+    }
+
+    const [amount, unit] = minutes % (24 * 60) === 0
+        ? [minutes / (24 * 60), 'day']
+        : minutes % 60 === 0
+            ? [minutes / 60, 'hour']
+            : [minutes, 'minute'];
+
+    return `in ${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { Env, TaskWorkflowParams } from '../types/env';
+import { mergePreference, readPreference } from './preferences';
+
+/**
+ * Data retention
+ *
+ * A daily cron trigger starts a `cleanup` run of TaskWorkflow for each active user. It deletes
+ * completed tasks and conversation messages (with their Vectorize embeddings) older than the
+ * user's retention settings, stored as `retention` in the users.preferences JSON blob.
+ * A null setting keeps that data forever.
+ */
+
+export const retentionSettingsSchema = z.object({
+    completedTaskDays: z.number().int().min(1).max(3650).nullable(),
+    conversationDays: z.number().int().min(1).max(3650).nullable(),
+});
+
+export type RetentionSettings = z.infer<typeof retentionSettingsSchema>;
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+    completedTaskDays: 30,
+    conversationDays: 365,
+};
+
+// Users with a message or new task this recently are cleaned up; dormant accounts are left alone
+export const ACTIVE_USER_WINDOW_DAYS = 90;
+
+// Workflows.createBatch accepts at most 100 instances per call
+const CLEANUP_BATCH_SIZE = 100;
+
+/**
+ * Read the user's retention settings out of a users.preferences JSON blob
+ */
+export function parseRetentionSettings(preferences: string | null | undefined): RetentionSettings {
+    return { ...DEFAULT_RETENTION, ...readPreference(preferences, 'retention', retentionSettingsSchema.partial(), {}) };
+}
+
+/**
+ * Set some or all of the user's retention settings in a users.preferences JSON blob
+ */
+export function mergeRetentionSettings(
+    preferences: string | null | undefined,
+    settings: Partial<RetentionSettings>
+): string {
+    return mergePreference(preferences, 'retention', { ...parseRetentionSettings(preferences), ...settings });
+}
+
+/**
+ * Start a cleanup workflow for every user active within ACTIVE_USER_WINDOW_DAYS
+ * Called from the Worker's scheduled handler; returns the number of workflows started.
+ */
+export async function startCleanupWorkflows(env: Env, scheduledTime: number = Date.now()): Promise<number> {
+    const activeSince = Math.floor(scheduledTime / 1000) - ACTIVE_USER_WINDOW_DAYS * 24 * 60 * 60;
+
+    const result = await env.DB.prepare(
+        `SELECT id FROM users u
+         WHERE EXISTS (SELECT 1 FROM conversations c WHERE c.user_id = u.id AND c.timestamp >= ?)
+            OR EXISTS (SELECT 1 FROM tasks t WHERE t.user_id = u.id AND t.created_at >= ?)`
+    ).bind(activeSince, activeSince).all<{ id: string }>();
+
+    const userIds = (result.results || []).map(row => row.id);
+
+    for (let i = 0; i < userIds.length; i += CLEANUP_BATCH_SIZE) {
+        await env.TASK_WORKFLOW.createBatch(
+            userIds.slice(i, i + CLEANUP_BATCH_SIZE).map(userId => {
+                const params: TaskWorkflowParams = { userId, action: 'cleanup' };
+                return { params };
+            })
+        );
+    }
+
+    console.log(`[Retention] Started cleanup workflows for ${userIds.length} active user(s)`);
+    return userIds.length;
+}
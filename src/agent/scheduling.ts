@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+/**
+ * Scheduled actions
+ *
+ * `scheduleAction` stores an approved tool call in D1 (`scheduled_actions`) with the time to run
+ * it. A `schedule` run of TaskWorkflow sleeps until then and asks the user's PersonalAssistant to
+ * run it, which validates the parameters against the tool again, executes it and reports the
+ * outcome. Both scheduleAction's and the scheduled tool's policies apply, whichever is stricter;
+ * an action scheduled without a confirmation dialog does not run once that policy becomes `ask`.
+ * An action moves from `pending` to `running` before it executes, so it runs at most once
+ * even when the workflow retries.
+ */
+
+export type ScheduledActionStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface ScheduledActionRow {
+    id: string;
+    user_id: string;
+    tool_name: string;
+    params: string; // JSON
+    run_at: number;
+    status: ScheduledActionStatus;
+    workflow_id: string | null;
+    result: string | null; // JSON { success, output, error }
+    confirmed: number; // 1 when the user approved the call in a confirmation dialog
+    created_at: number;
+    executed_at: number | null;
+}
+
+// Workflows can sleep for up to a year
+export const MAX_SCHEDULE_AHEAD_SECONDS = 365 * 24 * 60 * 60;
+
+// Body of the workflow's POST /scheduled-action request to the agent
+export const runScheduledActionRequestSchema = z.object({
+    userId: z.string(),
+    actionId: z.string(),
+});
+
+export type RunScheduledActionRequest = z.infer<typeof runScheduledActionRequestSchema>;
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Env } from '../types/env';
+import { computeTaskStats } from './stats';
+
+const at = (isoString: string) => Date.parse(isoString) / 1000;
+
+interface FakeTables {
+    timezone?: string | null;
+    created?: Array<{ priority: string | null; count: number; done: number | null }>;
+    completed?: Array<{ priority: string | null; count: number; avg_seconds: number | null; late: number }>;
+    overdue?: Array<{ priority: string | null; count: number }>;
+    completions?: number[]; // completed_at values
+}
+
+// Answers computeTaskStats' queries with canned rows, picked by what each query selects
+function fakeEnv(tables: FakeTables): Env {
+    const rowsFor = (sql: string): unknown[] => {
+        if (sql.includes('avg_seconds')) return tables.completed ?? [];
+        if (sql.includes('completed = 0')) return tables.overdue ?? [];
+        if (sql.startsWith('SELECT completed_at')) return (tables.completions ?? []).map(completed_at => ({ completed_at }));
+        if (sql.includes('created_at >= ?')) return tables.created ?? [];
+        throw new Error(`Unexpected query: ${sql}`);
+    };
+
+    const DB = {
+        prepare: (sql: string) => ({
+            bind: () => ({
+                first: async () => (tables.timezone === undefined ? null : { timezone: tables.timezone }),
+                all: async () => ({ results: rowsFor(sql) }),
+            }),
+        }),
+    };
+
+    return { DB } as unknown as Env;
+}
+
+describe('computeTaskStats', () => {
+    it('totals the counts across priorities, counting a missing priority as medium', async () => {
+        const stats = await computeTaskStats(fakeEnv({
+            timezone: 'UTC',
+            created: [
+                { priority: 'high', count: 2, done: 1 },
+                { priority: null, count: 1, done: 0 },
+                { priority: 'medium', count: 1, done: 1 },
+            ],
+            completed: [
+                { priority: 'low', count: 3, avg_seconds: 3600, late: 1 },
+                { priority: 'medium', count: 1, avg_seconds: 7200, late: 0 },
+            ],
+            overdue: [{ priority: 'high', count: 1 }],
+        }), 'user-1', 7, at('2026-03-10T12:00:00Z'));
+
+        expect(stats.created).toBe(4);
+        expect(stats.completed).toBe(4);
+        expect(stats.completionRate).toBe(0.5);
+        expect(stats.overdue).toBe(1);
+        expect(stats.completedLate).toBe(1);
+        expect(stats.averageHoursToComplete).toBe(1.3); // 1.25 hours, weighted by count
+        expect(stats.byPriority).toEqual({
+            low: { created: 0, completed: 3, overdue: 0 },
+            medium: { created: 2, completed: 1, overdue: 0 },
+            high: { created: 2, completed: 0, overdue: 1 },
+        });
+    });
+
+    it('reports no rate or average without tasks, and defaults to UTC', async () => {
+        const now = at('2026-03-10T12:00:00Z');
+        const stats = await computeTaskStats(fakeEnv({}), 'user-1', 3, now);
+
+        expect(stats.range).toEqual({ days: 3, from: now - 3 * 24 * 60 * 60, to: now, timeZone: 'UTC' });
+        expect(stats.completionRate).toBeNull();
+        expect(stats.averageHoursToComplete).toBeNull();
+        expect(stats.streak).toEqual({ current: 0, longest: 0 });
+        expect(stats.completedByDay).toEqual([
+            { date: '2026-03-08', completed: 0 },
+            { date: '2026-03-09', completed: 0 },
+            { date: '2026-03-10', completed: 0 },
+        ]);
+    });
+
+    it('buckets completions by local day across a DST change', async () => {
+        // 11:00 on 2026-03-10 in New York, two days after clocks went forward
+        const stats = await computeTaskStats(fakeEnv({
+            timezone: 'America/New_York',
+            completions: [
+                at('2026-03-10T14:00:00Z'),
+                at('2026-03-10T03:00:00Z'), // 23:00 on the 9th locally
+                at('2026-03-09T12:00:00Z'),
+                at('2026-03-08T04:30:00Z'), // 23:30 on the 7th, before the change
+                at('2026-03-06T17:00:00Z'),
+            ],
+        }), 'user-1', 7, at('2026-03-10T15:00:00Z'));
+
+        expect(stats.completedByDay).toEqual([
+            { date: '2026-03-04', completed: 0 },
+            { date: '2026-03-05', completed: 0 },
+            { date: '2026-03-06', completed: 1 },
+            { date: '2026-03-07', completed: 1 },
+            { date: '2026-03-08', completed: 0 },
+            { date: '2026-03-09', completed: 2 },
+            { date: '2026-03-10', completed: 1 },
+        ]);
+        expect(stats.streak).toEqual({ current: 2, longest: 2 });
+    });
+
+    it('keeps the current streak going until today is over, reaching back past the range', async () => {
+        const day = 24 * 60 * 60;
+        const now = at('2026-03-20T12:00:00Z');
+        const stats = await computeTaskStats(fakeEnv({
+            timezone: 'UTC',
+            // Every day from 10 days ago until yesterday
+            completions: Array.from({ length: 10 }, (_, i) => now - (i + 1) * day),
+        }), 'user-1', 5, now);
+
+        expect(stats.streak).toEqual({ current: 10, longest: 4 });
+        expect(stats.completedByDay.at(-1)).toEqual({ date: '2026-03-20', completed: 0 });
+    });
+});
@@ -0,0 +1,154 @@
+import { Env } from '../types/env';
+import { localDate, zonedDateParts, zonedTimeToUnix } from './timezone';
+
+/**
+ * Task statistics
+ *
+ * Computed from tasks.created_at, completed_at and due_date over the last `days` days, for the
+ * stats API, the getTaskStats tool and the dashboard. Days and streaks follow the user's
+ * users.timezone. Completed tasks removed by the retention cleanup no longer count.
+ */
+
+export const DEFAULT_STATS_DAYS = 7;
+export const MAX_STATS_DAYS = 365;
+
+type Priority = 'low' | 'medium' | 'high';
+
+export interface PriorityStats {
+    created: number;
+    completed: number;
+    overdue: number;
+}
+
+export interface TaskStats {
+    range: {
+        days: number;
+        from: number; // Unix seconds
+        to: number;
+        timeZone: string;
+    };
+    created: number; // Tasks created in the range
+    completed: number; // Tasks completed in the range, whenever they were created
+    completionRate: number | null; // Share of the tasks created in the range that are done; null if none were
+    overdue: number; // Open tasks past their due date right now
+    completedLate: number; // Completed in the range after their due date
+    averageHoursToComplete: number | null;
+    byPriority: Record<Priority, PriorityStats>;
+    streak: {
+        current: number; // Days in a row with a completion, up to today (or yesterday, if none yet today)
+        longest: number; // Longest run within the range
+    };
+    completedByDay: Array<{ date: string; completed: number }>; // Oldest first, one entry per local day
+}
+
+/**
+ * Compute a user's task statistics for the last `days` days
+ */
+export async function computeTaskStats(
+    env: Env,
+    userId: string,
+    days: number = DEFAULT_STATS_DAYS,
+    now: number = Math.floor(Date.now() / 1000)
+): Promise<TaskStats> {
+    const from = now - days * 24 * 60 * 60;
+
+    const user = await env.DB.prepare(
+        'SELECT timezone FROM users WHERE id = ?'
+    ).bind(userId).first<{ timezone: string | null }>();
+    const timeZone = user?.timezone || 'UTC';
+
+    const [created, completed, overdue, completions] = await Promise.all([
+        env.DB.prepare(
+            'SELECT priority, COUNT(*) AS count, SUM(completed) AS done FROM tasks WHERE user_id = ? AND created_at >= ? GROUP BY priority'
+        ).bind(userId, from).all<{ priority: string | null; count: number; done: number | null }>(),
+
+        env.DB.prepare(
+            `SELECT priority, COUNT(*) AS count, AVG(completed_at - created_at) AS avg_seconds,
+                    SUM(CASE WHEN due_date IS NOT NULL AND completed_at > due_date THEN 1 ELSE 0 END) AS late
+             FROM tasks WHERE user_id = ? AND completed = 1 AND completed_at >= ? GROUP BY priority`
+        ).bind(userId, from).all<{ priority: string | null; count: number; avg_seconds: number | null; late: number }>(),
+
+        env.DB.prepare(
+            'SELECT priority, COUNT(*) AS count FROM tasks WHERE user_id = ? AND completed = 0 AND due_date IS NOT NULL AND due_date < ? GROUP BY priority'
+        ).bind(userId, now).all<{ priority: string | null; count: number }>(),
+
+        // The current streak can reach back past the range
+        env.DB.prepare(
+            'SELECT completed_at FROM tasks WHERE user_id = ? AND completed = 1 AND completed_at >= ?'
+        ).bind(userId, now - MAX_STATS_DAYS * 24 * 60 * 60).all<{ completed_at: number }>(),
+    ]);
+
+    const byPriority: Record<Priority, PriorityStats> = {
+        low: { created: 0, completed: 0, overdue: 0 },
+        medium: { created: 0, completed: 0, overdue: 0 },
+        high: { created: 0, completed: 0, overdue: 0 },
+    };
+    // Tasks without a priority count as medium, as they do everywhere else
+    const bucket = (priority: string | null) => byPriority[priority === 'low' || priority === 'high' ? priority : 'medium'];
+
+    let createdCount = 0;
+    let createdDone = 0;
+    for (const row of created.results || []) {
+        bucket(row.priority).created += row.count;
+        createdCount += row.count;
+        createdDone += row.done ?? 0;
+    }
+
+    let completedCount = 0;
+    let completedLate = 0;
+    let totalSeconds = 0;
+    for (const row of completed.results || []) {
+        bucket(row.priority).completed += row.count;
+        completedCount += row.count;
+        completedLate += row.late;
+        totalSeconds += (row.avg_seconds ?? 0) * row.count;
+    }
+
+    let overdueCount = 0;
+    for (const row of overdue.results || []) {
+        bucket(row.priority).overdue += row.count;
+        overdueCount += row.count;
+    }
+
+    // Completions per local day
+    const perDay = new Map<string, number>();
+    for (const row of completions.results || []) {
+        const date = localDate(row.completed_at, timeZone);
+        perDay.set(date, (perDay.get(date) ?? 0) + 1);
+    }
+
+    // Local date `offset` days before today, stepping from noon so DST changes can't skip a day
+    const today = zonedDateParts(now, timeZone);
+    const dayAt = (offset: number) => localDate(zonedTimeToUnix({ ...today, day: today.day - offset }, 12, 0, timeZone), timeZone);
+
+    const completedByDay = Array.from({ length: days }, (_, i) => {
+        const date = dayAt(days - 1 - i);
+        return { date, completed: perDay.get(date) ?? 0 };
+    });
+
+    let longest = 0;
+    let run = 0;
+    for (const day of completedByDay) {
+        run = day.completed > 0 ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    }
+
+    // Today doesn't break the streak until it is over
+    let current = 0;
+    for (let offset = perDay.has(dayAt(0)) ? 0 : 1; offset <= MAX_STATS_DAYS && perDay.has(dayAt(offset)); offset++) {
+        current++;
+    }
+
+    return {
+        range: { days, from, to: now, timeZone },
+        created: createdCount,
+        completed: completedCount,
+        completionRate: createdCount > 0 ? createdDone / createdCount : null,
+        overdue: overdueCount,
+        completedLate,
+        averageHoursToComplete: completedCount > 0 ? Math.round(totalSeconds / completedCount / 360) / 10 : null,
+        byPriority,
+        streak: { current, longest },
+        completedByDay,
+    };
+}
@@ -0,0 +1,24 @@
+import { Task } from '../types/env';
+import { parseReminderOffsets } from './reminders';
+import { parseRRule } from './recurrence';
+
+/**
+ * Map a D1 tasks row to the Task shape the agent, the REST API and WebSocket clients share
+ */
+export function toTask(row: Record<string, unknown>): Task {
+    return {
+        id: row.id as string,
+        userId: row.user_id as string,
+        title: row.title as string,
+        description: row.description as string | undefined,
+        dueDate: row.due_date as number | undefined,
+        completed: Boolean(row.completed),
+        priority: (row.priority as 'low' | 'medium' | 'high') || 'medium',
+        createdAt: row.created_at as number,
+        completedAt: row.completed_at as number | undefined,
+        reminderOffsets: parseReminderOffsets(row.reminder_offsets) ?? undefined,
+        recurrence: parseRRule(row.recurrence as string | null) ?? undefined,
+        parentTaskId: (row.parent_task_id as string | null) ?? undefined,
+        position: (row.position as number | null) ?? undefined,
+    };
+}
@@ -0,0 +1,148 @@
+import { Env } from '../types/env';
+
+export interface Thread {
+    id: string;
+    userId: string;
+    title: string | null;
+    archived: boolean;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export const MAX_THREAD_TITLE_LENGTH = 100;
+
+interface ThreadRow {
+    id: string;
+    user_id: string;
+    title: string | null;
+    archived: number;
+    created_at: number;
+    updated_at: number;
+}
+
+const TITLE_SYSTEM_PROMPT = `Write a short title (3 to 6 words) for a conversation, based on its first exchange.
+Reply with the title only: no quotes, no trailing punctuation.`;
+
+/**
+ * Conversation threads stored in D1
+ * Every message in `conversations` belongs to one thread and context is built per thread.
+ */
+export class ThreadManager {
+    private env: Env;
+
+    constructor(env: Env) {
+        this.env = env;
+    }
+
+    /**
+     * Create a thread, untitled unless a title is given
+     */
+    async createThread(userId: string, title: string | null = null): Promise<Thread> {
+        const id = crypto.randomUUID();
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.env.DB.prepare(
+            'INSERT INTO threads (id, user_id, title, archived, created_at, updated_at) VALUES (?, ?, ?, 0, ?, ?)'
+        ).bind(id, userId, title, now, now).run();
+
+        console.log(`[Threads] Created thread ${id} for user ${userId}`);
+
+        return { id, userId, title, archived: false, createdAt: now, updatedAt: now };
+    }
+
+    /**
+     * List a user's threads, most recently active first
+     */
+    async listThreads(userId: string, includeArchived: boolean = false): Promise<Thread[]> {
+        const query = includeArchived
+            ? 'SELECT * FROM threads WHERE user_id = ? ORDER BY updated_at DESC'
+            : 'SELECT * FROM threads WHERE user_id = ? AND archived = 0 ORDER BY updated_at DESC';
+
+        const result = await this.env.DB.prepare(query).bind(userId).all<ThreadRow>();
+
+        return (result.results || []).map(row => this.toThread(row));
+    }
+
+    /**
+     * Get a thread, or null if it doesn't exist for this user
+     */
+    async getThread(userId: string, threadId: string): Promise<Thread | null> {
+        const row = await this.env.DB.prepare(
+            'SELECT * FROM threads WHERE id = ? AND user_id = ?'
+        ).bind(threadId, userId).first<ThreadRow>();
+
+        return row ? this.toThread(row) : null;
+    }
+
+    /**
+     * Set a thread's title
+     */
+    async renameThread(userId: string, threadId: string, title: string): Promise<Thread | null> {
+        await this.env.DB.prepare(
+            'UPDATE threads SET title = ? WHERE id = ? AND user_id = ?'
+        ).bind(title, threadId, userId).run();
+
+        return this.getThread(userId, threadId);
+    }
+
+    /**
+     * Archive or restore a thread
+     */
+    async setArchived(userId: string, threadId: string, archived: boolean): Promise<Thread | null> {
+        await this.env.DB.prepare(
+            'UPDATE threads SET archived = ?, updated_at = ? WHERE id = ? AND user_id = ?'
+        ).bind(archived ? 1 : 0, Math.floor(Date.now() / 1000), threadId, userId).run();
+
+        return this.getThread(userId, threadId);
+    }
+
+    /**
+     * Mark a thread as active now so it sorts to the top of the list
+     */
+    async touchThread(threadId: string): Promise<void> {
+        await this.env.DB.prepare(
+            'UPDATE threads SET updated_at = ? WHERE id = ?'
+        ).bind(Math.floor(Date.now() / 1000), threadId).run();
+    }
+
+    /**
+     * Ask the LLM for a short title summarizing the first exchange
+     */
+    async generateTitle(userMessage: string, assistantReply: string): Promise<string> {
+        const model = (this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast') as unknown as keyof AiModels;
+
+        const response = await this.env.AI.run(model, {
+            messages: [
+                { role: 'system', content: TITLE_SYSTEM_PROMPT },
+                {
+                    role: 'user',
+                    content: `User: ${userMessage.substring(0, 1000)}\nAssistant: ${assistantReply.substring(0, 1000)}`,
+                },
+            ],
+            max_tokens: 20,
+            temperature: 0.3,
+        }) as { response?: string };
+
+        const title = (response?.response || '')
+            .split('\n')[0]
+            .replace(/^["'\s]+|["'.\s]+$/g, '')
+            .substring(0, MAX_THREAD_TITLE_LENGTH);
+
+        if (!title) {
+            throw new Error('Title generation returned no text');
+        }
+
+        return title;
+    }
+
+    private toThread(row: ThreadRow): Thread {
+        return {
+            id: row.id,
+            userId: row.user_id,
+            title: row.title,
+            archived: row.archived === 1,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { endOfLocalDay, localDate, zonedDateParts, zonedTimeToUnix } from './timezone';
+
+const iso = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+const at = (isoString: string) => Date.parse(isoString) / 1000;
+
+const HOUR = 60 * 60;
+
+describe('zonedDateParts', () => {
+    it('reads the local wall-clock time', () => {
+        expect(zonedDateParts(at('2026-07-01T03:30:00Z'), 'America/New_York'))
+            .toEqual({ year: 2026, month: 6, day: 30, hour: 23, minute: 30 });
+        expect(zonedDateParts(at('2026-07-01T20:00:00Z'), 'Asia/Kolkata'))
+            .toEqual({ year: 2026, month: 7, day: 2, hour: 1, minute: 30 });
+    });
+
+    it('shows midnight as hour 0', () => {
+        expect(zonedDateParts(at('2026-01-01T00:00:00Z'), 'UTC').hour).toBe(0);
+    });
+
+    it('falls back to UTC for unknown zones', () => {
+        expect(zonedDateParts(at('2026-07-01T03:30:00Z'), 'Mars/Olympus_Mons'))
+            .toEqual({ year: 2026, month: 7, day: 1, hour: 3, minute: 30 });
+    });
+});
+
+describe('zonedTimeToUnix', () => {
+    it('uses the offset in force on that date', () => {
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 1, day: 15 }, 9, 0, 'America/New_York'))).toBe('2026-01-15T14:00:00.000Z');
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 7, day: 15 }, 9, 0, 'America/New_York'))).toBe('2026-07-15T13:00:00.000Z');
+    });
+
+    it('handles both sides of a DST change', () => {
+        // Clocks go forward at 02:00 on 2026-03-08 in New York
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 3, day: 8 }, 1, 0, 'America/New_York'))).toBe('2026-03-08T06:00:00.000Z');
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 3, day: 8 }, 12, 0, 'America/New_York'))).toBe('2026-03-08T16:00:00.000Z');
+        // And back at 02:00 on 2026-11-01
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 11, day: 1 }, 0, 0, 'America/New_York'))).toBe('2026-11-01T04:00:00.000Z');
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 11, day: 1 }, 12, 0, 'America/New_York'))).toBe('2026-11-01T17:00:00.000Z');
+    });
+
+    it('moves a time skipped by DST forward', () => {
+        expect(iso(zonedTimeToUnix({ year: 2026, month: 3, day: 8 }, 2, 30, 'America/New_York'))).toBe('2026-03-08T07:30:00.000Z');
+    });
+
+    it('rolls days past the end of the month over', () => {
+        expect(localDate(zonedTimeToUnix({ year: 2026, month: 1, day: 32 }, 12, 0, 'Europe/Berlin'), 'Europe/Berlin')).toBe('2026-02-01');
+        expect(localDate(zonedTimeToUnix({ year: 2026, month: 12, day: 32 }, 12, 0, 'Europe/Berlin'), 'Europe/Berlin')).toBe('2027-01-01');
+        expect(localDate(zonedTimeToUnix({ year: 2026, month: 3, day: 0 }, 12, 0, 'Europe/Berlin'), 'Europe/Berlin')).toBe('2026-02-28');
+    });
+});
+
+describe('localDate', () => {
+    it('uses the local calendar day', () => {
+        const timestamp = at('2026-03-10T03:00:00Z');
+        expect(localDate(timestamp, 'UTC')).toBe('2026-03-10');
+        expect(localDate(timestamp, 'America/New_York')).toBe('2026-03-09');
+        expect(localDate(timestamp, 'Pacific/Auckland')).toBe('2026-03-10');
+    });
+});
+
+describe('endOfLocalDay', () => {
+    it('returns the next local midnight', () => {
+        expect(iso(endOfLocalDay(at('2026-07-01T20:00:00Z'), 'Asia/Kolkata'))).toBe('2026-07-02T18:30:00.000Z');
+        expect(iso(endOfLocalDay(at('2026-12-31T12:00:00Z'), 'UTC'))).toBe('2027-01-01T00:00:00.000Z');
+    });
+
+    it('gives DST days their real length', () => {
+        const springStart = zonedTimeToUnix({ year: 2026, month: 3, day: 8 }, 0, 0, 'America/New_York');
+        expect(endOfLocalDay(springStart, 'America/New_York') - springStart).toBe(23 * HOUR);
+
+        const fallStart = zonedTimeToUnix({ year: 2026, month: 11, day: 1 }, 0, 0, 'America/New_York');
+        expect(endOfLocalDay(fallStart, 'America/New_York') - fallStart).toBe(25 * HOUR);
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Calendar helpers for a user's IANA time zone (users.timezone)
+ * Timestamps are Unix seconds.
+ */
+
+/**
+ * Local calendar date and time of a Unix timestamp in an IANA time zone
+ * Unknown zones fall back to UTC.
+ */
+export function zonedDateParts(timestamp: number, timeZone: string) {
+    let format: Intl.DateTimeFormat;
+    try {
+        format = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit',
+        });
+    } catch {
+        return zonedDateParts(timestamp, 'UTC');
+    }
+
+    const parts = Object.fromEntries(
+        format.formatToParts(new Date(timestamp * 1000)).map(part => [part.type, Number(part.value)])
+    );
+
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/**
+ * Unix timestamp of a local wall-clock time in an IANA time zone
+ * Days past the end of the month roll over, as with Date.UTC.
+ */
+export function zonedTimeToUnix(
+    date: { year: number; month: number; day: number },
+    hour: number,
+    minute: number,
+    timeZone: string
+): number {
+    const asUtc = Date.UTC(date.year, date.month - 1, date.day, hour, minute) / 1000;
+
+    // Shift by the zone's offset at that moment
+    const local = zonedDateParts(asUtc, timeZone);
+    const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) / 1000 - asUtc;
+
+    return asUtc - offset;
+}
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD
+ */
+export function localDate(timestamp: number, timeZone: string): string {
+    const { year, month, day } = zonedDateParts(timestamp, timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Timestamp of the end of the local day containing `timestamp` (the next local midnight)
+ */
+export function endOfLocalDay(timestamp: number, timeZone: string): number {
+    const today = zonedDateParts(timestamp, timeZone);
+    return zonedTimeToUnix({ ...today, day: today.day + 1 }, 0, 0, timeZone);
+}
@@ -15,6 +15,52 @@ export interface SearchResult {
     vector?: number[];
 }
 
+// Knowledge chunks are sized to fit the 500 character content kept in vector metadata,
+// so retrieval returns whole chunks
+export const KNOWLEDGE_CHUNK_SIZE = 500;
+const KNOWLEDGE_CHUNK_OVERLAP = 50;
+
+/**
+ * Split text into overlapping chunks, preferring paragraph, sentence and word boundaries
+ */
+export function chunkText(
+    text: string,
+    chunkSize: number = KNOWLEDGE_CHUNK_SIZE,
+    overlap: number = KNOWLEDGE_CHUNK_OVERLAP
+): string[] {
+    const normalized = text.replace(/\r\n/g, '\n').trim();
+    if (normalized.length <= chunkSize) {
+        return normalized ? [normalized] : [];
+    }
+
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < normalized.length) {
+        let end = Math.min(start + chunkSize, normalized.length);
+
+        if (end < normalized.length) {
+            const window = normalized.slice(start, end);
+            // Only break early if it keeps at least half a chunk
+            const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf(' ')]
+                .find(index => index > chunkSize / 2);
+            if (breakAt !== undefined) {
+                end = start + breakAt + 1;
+            }
+        }
+
+        const chunk = normalized.slice(start, end).trim();
+        if (chunk) {
+            chunks.push(chunk);
+        }
+
+        if (end >= normalized.length) break;
+        start = Math.max(end - overlap, start + 1);
+    }
+
+    return chunks;
+}
+
 /**
  * Vectorize integration for semantic memory and RAG
  */
@@ -133,18 +179,19 @@ export class VectorizeManager {
 
     /**
      * Store custom knowledge entry with embedding
+     * Returns false when the embedding could not be stored
      */
     async storeKnowledge(
         userId: string,
         id: string,
         content: string,
         additionalMetadata?: Record<string, string | number>
-    ): Promise<void> {
+    ): Promise<boolean> {
         try {
             // Check if Vectorize is available (not available in local dev)
             if (!this.env.VECTORIZE) {
                 // Silently skip in local development
-                return;
+                return false;
             }
 
             const embedding = await this.generateEmbedding(content);
@@ -169,11 +216,13 @@ export class VectorizeManager {
                 },
             ]);
             console.log("Stored knowledge embedding:", id);
+            return true;
         } catch (error) {
             // Only log error if it's not the expected local dev limitation
             if (this.env.VECTORIZE) {
                 console.error('Error storing knowledge embedding:', error);
             }
+            return false;
         }
     }
 
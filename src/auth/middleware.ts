@@ -0,0 +1,59 @@
+import { MiddlewareHandler } from "hono";
+import { Env } from "../types/env";
+import { AuthError, verifySessionToken } from "./session";
+
+export type AuthVariables = {
+    userId: string; // Authenticated user, taken from the session token
+};
+
+type AuthEnv = { Bindings: Env; Variables: AuthVariables };
+
+// Routes that hand out tokens and therefore cannot require one
+const PUBLIC_PATHS = new Set(['/api/users/register', '/api/users/login']);
+
+/**
+ * Read the session token from `Authorization: Bearer <token>`, or from `?token=`
+ * for WebSocket upgrades where browsers cannot set headers
+ */
+function extractToken(authorization: string | undefined, queryToken: string | undefined): string | null {
+    if (authorization?.startsWith('Bearer ')) {
+        return authorization.slice('Bearer '.length).trim() || null;
+    }
+    return queryToken || null;
+}
+
+/**
+ * Verify the session token and expose the user id as `c.get('userId')`
+ */
+export const requireAuth: MiddlewareHandler<AuthEnv> = async (c, next) => {
+    if (PUBLIC_PATHS.has(c.req.path)) {
+        return next();
+    }
+
+    const token = extractToken(c.req.header('Authorization'), c.req.query('token'));
+    if (!token) {
+        return c.json({ error: 'Authentication required' }, 401);
+    }
+
+    try {
+        c.set('userId', await verifySessionToken(c.env, token));
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return c.json({ error: error.message }, error.status);
+        }
+        throw error;
+    }
+
+    await next();
+};
+
+/**
+ * Only let users reach `/api/user/:userId/...` routes for their own id
+ */
+export const requireSameUser: MiddlewareHandler<AuthEnv> = async (c, next) => {
+    if (c.req.param('userId') !== c.get('userId')) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    await next();
+};
@@ -0,0 +1,123 @@
+import { sign, verify } from "hono/jwt";
+import { Env } from "../types/env";
+
+/**
+ * Session tokens are HS256 JWTs whose `sub` is the user id
+ */
+export interface SessionClaims {
+    sub: string;
+    iat: number;
+    exp: number;
+}
+
+// 30 days; the frontend refreshes tokens while they are valid and asks the user to log in once one expires
+const DEFAULT_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const PBKDF2_ITERATIONS = 100000;
+
+export class AuthError extends Error {
+    constructor(message: string, public readonly status: 401 | 403 | 500 = 401) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * Read the signing secret, failing loudly rather than signing with an empty key
+ */
+function getSecret(env: Env): string {
+    if (!env.AUTH_SECRET) {
+        throw new AuthError('Authentication is not configured (AUTH_SECRET is missing)', 500);
+    }
+    return env.AUTH_SECRET;
+}
+
+/**
+ * Issue a signed session token for a user
+ */
+export async function issueSessionToken(env: Env, userId: string): Promise<{ token: string; expiresAt: number }> {
+    const now = Math.floor(Date.now() / 1000);
+    const ttl = parseInt(env.AUTH_TOKEN_TTL_SECONDS || '') || DEFAULT_TOKEN_TTL_SECONDS;
+
+    const claims: SessionClaims = { sub: userId, iat: now, exp: now + ttl };
+    const token = await sign({ ...claims }, getSecret(env), 'HS256');
+
+    return { token, expiresAt: claims.exp };
+}
+
+/**
+ * Verify a session token and return the user id it was issued to
+ */
+export async function verifySessionToken(env: Env, token: string): Promise<string> {
+    const secret = getSecret(env);
+
+    try {
+        const payload = await verify(token, secret, 'HS256');
+        if (typeof payload.sub !== 'string' || !payload.sub) {
+            throw new AuthError('Session token has no subject');
+        }
+        return payload.sub;
+    } catch (error) {
+        if (error instanceof AuthError) throw error;
+        throw new AuthError('Invalid or expired session token');
+    }
+}
+
+/**
+ * Hash a password with PBKDF2-SHA256
+ *
+ * Stored as `pbkdf2$<iterations>$<salt>$<hash>` so the cost can be raised later
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await derivePasswordHash(password, salt, PBKDF2_ITERATIONS);
+
+    return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, iterations, salt, expected] = stored.split('$');
+    if (scheme !== 'pbkdf2' || !iterations || !salt || !expected) {
+        return false;
+    }
+
+    const actual = toBase64(await derivePasswordHash(password, fromBase64(salt), parseInt(iterations)));
+    if (actual.length !== expected.length) {
+        return false;
+    }
+
+    let diff = 0;
+    for (let i = 0; i < actual.length; i++) {
+        diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+async function derivePasswordHash(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(password),
+        'PBKDF2',
+        false,
+        ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        key,
+        256
+    );
+
+    return new Uint8Array(bits);
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
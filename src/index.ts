@@ -2,28 +2,56 @@ import { Hono } from "hono"; // Hono web api framework for Cloudflare Workers
 import { PersonalAssistant } from "./agent/PersonalAssistant";
 import { Env } from "./types/env";
 import { TaskWorkflow } from "./workflows/TaskWorkflow";
+import { ALL_TOOLS } from "./mcp/tools/index";
+import { isToolPolicy, mergeToolPolicies, parseToolPolicies, resolveToolPolicy } from "./mcp/ToolPolicy";
+import { ToolPolicy } from "./types/tools";
+import { AuthVariables, requireAuth, requireSameUser } from "./auth/middleware";
+import { AuthError, hashPassword, issueSessionToken, verifyPassword } from "./auth/session";
+import { loadConversationPage, toDisplayMessages } from "./agent/history";
+import { ThreadManager } from "./agent/threads";
+import { mergeDefaultReminderOffsets, parseDefaultReminderOffsets, parseReminderOffsets } from "./agent/reminders";
+import { toTask } from "./agent/tasks";
+import { mergeRetentionSettings, parseRetentionSettings, retentionSettingsSchema, startCleanupWorkflows } from "./agent/retention";
+import { briefingSettingsSchema, mergeBriefingSettings, parseBriefingSettings, startBriefingWorkflows } from "./agent/briefing";
+import { computeTaskStats, DEFAULT_STATS_DAYS, MAX_STATS_DAYS } from "./agent/stats";
+import { KnowledgeManager, MAX_KNOWLEDGE_CONTENT_LENGTH, MAX_KNOWLEDGE_TITLE_LENGTH } from "./agent/knowledge";
 
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+const MIN_PASSWORD_LENGTH = 8;
 
 app.get('/health', (c) => {
     return c.json({ status: 'healthy' });
 });
 
+// every /api/* route except register and login needs a session token
+app.use('/api/*', requireAuth);
+app.use('/api/user/:userId', requireSameUser);
+app.use('/api/user/:userId/*', requireSameUser);
+
 // user registry
 app.post('/api/users/register', async (c) => {
     try {
         const body = await c.req.json().catch(() => ({}));
 
+        // Password is optional; without one the returned token is the only credential
+        if (body.password !== undefined && (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH)) {
+            return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
+        }
+
         const userId = crypto.randomUUID();
         const name = body.name || `User_${userId.slice(0, 8)}`;
         const timezone = body.timezone || 'UTC';
         const preferences = body.preferences ? JSON.stringify(body.preferences) : null;
+        const passwordHash = body.password ? await hashPassword(body.password) : null;
         const now = Math.floor(Date.now() / 1000);
 
-      
+        // Fail before creating the user if tokens can't be signed
+        const session = await issueSessionToken(c.env, userId);
+
         await c.env.DB.prepare(
-            'INSERT INTO users (id, name, timezone, preferences, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
-        ).bind(userId, name, timezone, preferences, now, now).run();
+            'INSERT INTO users (id, name, timezone, preferences, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+        ).bind(userId, name, timezone, preferences, passwordHash, now, now).run();
 
         return c.json({
             userId,
@@ -31,10 +59,15 @@ app.post('/api/users/register', async (c) => {
             timezone,
             preferences: preferences ? JSON.parse(preferences) : null,
             createdAt: now,
-            message: 'User registered successfully. Use this userId to connect to WebSocket.'
+            token: session.token,
+            expiresAt: session.expiresAt,
+            message: 'User registered successfully. Use this token to connect to WebSocket.'
         }, 201);
     } catch (error) {
         console.error('Error registering user:', error);
+        if (error instanceof AuthError) {
+            return c.json({ error: error.message }, error.status);
+        }
         return c.json({
             error: 'Failed to register user',
             details: error instanceof Error ? error.message : 'Unknown error'
@@ -42,35 +75,93 @@ app.post('/api/users/register', async (c) => {
     }
 });
 
-// id generation endpoint
-app.get('/api/users/generate-id', (c) => {
-    const userId = crypto.randomUUID();
-    return c.json({
-        userId,
-        message: 'Use this userId to connect to WebSocket. User profile will be created automatically on first connection.'
-    });
+// exchange userId + password for a new session token
+app.post('/api/users/login', async (c) => {
+    try {
+        const body = await c.req.json().catch(() => ({}));
+
+        if (typeof body.userId !== 'string' || typeof body.password !== 'string') {
+            return c.json({ error: 'userId and password are required' }, 400);
+        }
+
+        const user = await c.env.DB.prepare(
+            'SELECT id, password_hash FROM users WHERE id = ?'
+        ).bind(body.userId).first();
+
+        // Same response for unknown users, passwordless users and wrong passwords
+        if (!user || !user.password_hash || !(await verifyPassword(body.password, user.password_hash as string))) {
+            return c.json({ error: 'Invalid userId or password' }, 401);
+        }
+
+        const session = await issueSessionToken(c.env, user.id as string);
+
+        return c.json({
+            userId: user.id,
+            token: session.token,
+            expiresAt: session.expiresAt,
+        });
+    } catch (error) {
+        console.error('Error logging in:', error);
+        if (error instanceof AuthError) {
+            return c.json({ error: error.message }, error.status);
+        }
+        return c.json({
+            error: 'Failed to log in',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, 500);
+    }
+});
+
+// exchange a still-valid session token for a fresh one, so an active user keeps their identity
+app.post('/api/users/refresh', async (c) => {
+    try {
+        const userId = c.get('userId');
+
+        const user = await c.env.DB.prepare(
+            'SELECT id FROM users WHERE id = ?'
+        ).bind(userId).first();
+
+        if (!user) {
+            return c.json({ error: 'User not found' }, 401);
+        }
+
+        const session = await issueSessionToken(c.env, userId);
+
+        return c.json({
+            userId,
+            token: session.token,
+            expiresAt: session.expiresAt,
+        });
+    } catch (error) {
+        console.error('Error refreshing session:', error);
+        if (error instanceof AuthError) {
+            return c.json({ error: error.message }, error.status);
+        }
+        return c.json({
+            error: 'Failed to refresh session',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, 500);
+    }
 });
 
 // HTTP to websocket upgrade endpoint
-app.get('/ws', async (c)  =>  {
+app.get('/ws', requireAuth, async (c)  =>  {
     const upgradeHeader = c.req.header("Upgrade");
     if (upgradeHeader !== "websocket") {
         return c.json({ error: "Expected WebSocket Upgrade" }, 426);
     }
 
-    
-    const userId = c.req.query('userId');
-    if (!userId) {
-        return c.json({
-            error: "userId query parameter is required",
-            message: "Please connect with /ws?userId=<your-user-id>"
-        }, 400);
-    }
+    // Route by the token's user, never by a client-supplied id
+    const userId = c.get('userId');
+
+    const url = new URL(c.req.url);
+    url.searchParams.delete('token');
+    url.searchParams.set('userId', userId);
 
     try {
         const id = c.env.AGENT.idFromName(userId);
         const stub = c.env.AGENT.get(id);
-        return stub.fetch(c.req.raw);
+        return stub.fetch(new Request(url.toString(), c.req.raw));
     } catch (error) {
         console.error('Error connecting to Durable Object:', error);
         return c.json({
@@ -85,7 +176,7 @@ app.get('/api/user/:userId', async (c) => {
     const userId = c.req.param('userId');
 
     const result = await c.env.DB.prepare(
-        'SELECT id, name, timezone, preferences, created_at FROM users WHERE id = ?'
+        'SELECT id, name, timezone, preferences, created_at, password_hash IS NOT NULL AS has_password FROM users WHERE id = ?'
     ).bind(userId).first();
 
     if (!result) {
@@ -95,6 +186,37 @@ app.get('/api/user/:userId', async (c) => {
     return c.json(result);
 })
 
+// set a password so the user can log in again once their token expires
+// changing an existing password needs the current one, so a leaked token can't take over the account
+app.put('/api/user/:userId/password', async (c) => {
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => ({}));
+
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+        return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+        'SELECT password_hash FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    if (user.password_hash) {
+        if (typeof body.currentPassword !== 'string' || !(await verifyPassword(body.currentPassword, user.password_hash as string))) {
+            return c.json({ error: 'Current password is incorrect' }, 403);
+        }
+    }
+
+    await c.env.DB.prepare(
+        'UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?'
+    ).bind(await hashPassword(body.password), Math.floor(Date.now() / 1000), userId).run();
+
+    return c.json({ hasPassword: true });
+});
+
 // get user tasks
 app.get('/api/user/:userId/tasks', async (c) => {
     const userId = c.req.param('userId');
@@ -112,10 +234,22 @@ app.get('/api/user/:userId/tasks', async (c) => {
 
     const result = await c.env.DB.prepare(query).bind(...params).all();
 
-    return c.json({ tasks: result.results || [] });
+    return c.json({ tasks: (result.results || []).map(toTask) });
 
 });
 
+// get task statistics for the last `days` days (default 7, at most 365)
+app.get('/api/user/:userId/stats', async (c) => {
+    const userId = c.req.param('userId');
+    const days = parseInt(c.req.query('days') || String(DEFAULT_STATS_DAYS));
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+        return c.json({ error: `days must be a whole number between 1 and ${MAX_STATS_DAYS}` }, 400);
+    }
+
+    return c.json(await computeTaskStats(c.env, userId, days));
+});
+
 // get user conversations
 app.get('/api/user/:userId/conversations', async (c) => {
     const userId = c.req.param('userId');
@@ -128,11 +262,372 @@ app.get('/api/user/:userId/conversations', async (c) => {
     return c.json({ conversations: result.results || [] });
 });
 
+// paginated conversation history for display, oldest first within a page
+// pass nextCursor back as ?before= to load the page before; ?threadId= limits it to one thread
+app.get('/api/user/:userId/history', async (c) => {
+    const userId = c.req.param('userId');
+    const limit = parseInt(c.req.query('limit') || '') || undefined;
+
+    const page = await loadConversationPage(c.env.DB, userId, {
+        before: c.req.query('before'),
+        limit,
+        threadId: c.req.query('threadId'),
+    });
+
+    return c.json({
+        messages: toDisplayMessages(page.messages),
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor,
+    });
+});
+
+// get conversation threads, most recently active first
+app.get('/api/user/:userId/threads', async (c) => {
+    const userId = c.req.param('userId');
+    const includeArchived = c.req.query('archived') === 'true';
+
+    const threads = await new ThreadManager(c.env).listThreads(userId, includeArchived);
+
+    return c.json({ threads });
+});
+
+// get effective tool approval policies
+app.get('/api/user/:userId/tool-policies', async (c) => {
+    const userId = c.req.param('userId');
+
+    const user = await c.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    const policies = parseToolPolicies(user.preferences as string | null);
+
+    return c.json({
+        tools: ALL_TOOLS.map(tool => ({
+            name: tool.name,
+            riskLevel: tool.riskLevel,
+            policy: resolveToolPolicy(tool, policies),
+            isDefault: policies[tool.name] === undefined,
+        })),
+    });
+});
+
+// update tool approval policies, e.g. { "listTasks": "auto_approve", "sendEmail": "ask" }
+app.put('/api/user/:userId/tool-policies', async (c) => {
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+        return c.json({ error: 'Expected an object of toolName -> policy' }, 400);
+    }
+
+    const toolNames = new Set(ALL_TOOLS.map(tool => tool.name));
+    const updates: Record<string, ToolPolicy> = {};
+
+    for (const [toolName, policy] of Object.entries(body)) {
+        if (!toolNames.has(toolName)) {
+            return c.json({ error: `Unknown tool: ${toolName}` }, 400);
+        }
+        if (!isToolPolicy(policy)) {
+            return c.json({ error: `Invalid policy for ${toolName}. Use ask, auto_approve or deny` }, 400);
+        }
+        updates[toolName] = policy;
+    }
+
+    const user = await c.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    const preferences = mergeToolPolicies(user.preferences as string | null, updates);
+
+    await c.env.DB.prepare(
+        'UPDATE users SET preferences = ?, updated_at = ? WHERE id = ?'
+    ).bind(preferences, Math.floor(Date.now() / 1000), userId).run();
+
+    return c.json({ toolPolicies: parseToolPolicies(preferences) });
+});
+
+// get default reminder offsets (minutes before the due date) for tasks without their own
+app.get('/api/user/:userId/reminder-settings', async (c) => {
+    const userId = c.req.param('userId');
+
+    const user = await c.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    return c.json({ defaultOffsets: parseDefaultReminderOffsets(user.preferences as string | null) });
+});
+
+// update default reminder offsets, e.g. { "defaultOffsets": [1440, 60, 0] }
+app.put('/api/user/:userId/reminder-settings', async (c) => {
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => null);
+
+    const offsets = parseReminderOffsets(body?.defaultOffsets);
+    if (!offsets) {
+        return c.json({ error: 'defaultOffsets must be a list of up to 5 whole minutes before the due date (at most 30 days)' }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    const preferences = mergeDefaultReminderOffsets(user.preferences as string | null, offsets);
+
+    await c.env.DB.prepare(
+        'UPDATE users SET preferences = ?, updated_at = ? WHERE id = ?'
+    ).bind(preferences, Math.floor(Date.now() / 1000), userId).run();
+
+    return c.json({ defaultOffsets: parseDefaultReminderOffsets(preferences) });
+});
+
+// get retention settings for old completed tasks and conversations
+app.get('/api/user/:userId/retention-settings', async (c) => {
+    const userId = c.req.param('userId');
+
+    const user = await c.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    return c.json(parseRetentionSettings(user.preferences as string | null));
+});
+
+// update retention settings in days, e.g. { "completedTaskDays": 30, "conversationDays": null }; null keeps forever
+app.put('/api/user/:userId/retention-settings', async (c) => {
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => null);
+
+    const parsed = retentionSettingsSchema.partial().safeParse(body);
+    if (!parsed.success) {
+        return c.json({
+            error: 'completedTaskDays and conversationDays must be whole days between 1 and 3650, or null to keep forever',
+            details: parsed.error.issues.map(issue => issue.message),
+        }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+        'SELECT preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    const preferences = mergeRetentionSettings(user.preferences as string | null, parsed.data);
+
+    await c.env.DB.prepare(
+        'UPDATE users SET preferences = ?, updated_at = ? WHERE id = ?'
+    ).bind(preferences, Math.floor(Date.now() / 1000), userId).run();
+
+    return c.json(parseRetentionSettings(preferences));
+});
+
+// get daily briefing settings
+app.get('/api/user/:userId/briefing-settings', async (c) => {
+    const userId = c.req.param('userId');
+
+    const user = await c.env.DB.prepare(
+        'SELECT timezone, preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    return c.json({ ...parseBriefingSettings(user.preferences as string | null), timezone: user.timezone });
+});
+
+// update daily briefing settings, e.g. { "enabled": true, "time": "07:30", "homeCity": "Paris", "email": null }
+app.put('/api/user/:userId/briefing-settings', async (c) => {
+    const userId = c.req.param('userId');
+    const body = await c.req.json().catch(() => null);
+
+    const parsed = briefingSettingsSchema.partial().safeParse(body);
+    if (!parsed.success) {
+        return c.json({
+            error: 'Invalid briefing settings',
+            details: parsed.error.issues.map(issue => issue.message),
+        }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+        'SELECT timezone, preferences FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    const preferences = mergeBriefingSettings(user.preferences as string | null, parsed.data);
+
+    await c.env.DB.prepare(
+        'UPDATE users SET preferences = ?, updated_at = ? WHERE id = ?'
+    ).bind(preferences, Math.floor(Date.now() / 1000), userId).run();
+
+    return c.json({ ...parseBriefingSettings(preferences), timezone: user.timezone });
+});
+
+/**
+ * Validate a knowledge entry body; `partial` allows either field to be omitted for updates
+ */
+function parseKnowledgeBody(body: any, partial: boolean): { title?: string | null; content?: string } | string {
+    if (!body || typeof body !== 'object') {
+        return 'Expected a JSON object with title and content';
+    }
+
+    const result: { title?: string | null; content?: string } = {};
+
+    if (body.title !== undefined && body.title !== null) {
+        if (typeof body.title !== 'string' || body.title.length > MAX_KNOWLEDGE_TITLE_LENGTH) {
+            return `title must be a string of at most ${MAX_KNOWLEDGE_TITLE_LENGTH} characters`;
+        }
+        result.title = body.title.trim() || null;
+    } else if (body.title === null) {
+        result.title = null;
+    }
+
+    if (body.content !== undefined) {
+        if (typeof body.content !== 'string' || !body.content.trim() || body.content.length > MAX_KNOWLEDGE_CONTENT_LENGTH) {
+            return `content must be a non-empty string of at most ${MAX_KNOWLEDGE_CONTENT_LENGTH} characters`;
+        }
+        result.content = body.content;
+    } else if (!partial) {
+        return 'content is required';
+    }
+
+    if (partial && result.title === undefined && result.content === undefined) {
+        return 'Provide title and/or content to update';
+    }
+
+    return result;
+}
+
+// create a knowledge base entry
+app.post('/api/user/:userId/knowledge', async (c) => {
+    const userId = c.req.param('userId');
+    const parsed = parseKnowledgeBody(await c.req.json().catch(() => null), false);
+
+    if (typeof parsed === 'string') {
+        return c.json({ error: parsed }, 400);
+    }
+
+    try {
+        const entry = await new KnowledgeManager(c.env).createEntry(userId, parsed.title ?? null, parsed.content!);
+        return c.json(entry, 201);
+    } catch (error) {
+        console.error('Error creating knowledge entry:', error);
+        return c.json({
+            error: 'Failed to create knowledge entry',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, 500);
+    }
+});
+
+// list knowledge base entries
+app.get('/api/user/:userId/knowledge', async (c) => {
+    const userId = c.req.param('userId');
+    const limit = parseInt(c.req.query('limit') || '50');
+
+    const entries = await new KnowledgeManager(c.env).listEntries(userId, limit);
+
+    return c.json({ entries });
+});
+
+// get a single knowledge base entry
+app.get('/api/user/:userId/knowledge/:entryId', async (c) => {
+    const entry = await new KnowledgeManager(c.env).getEntry(c.req.param('userId'), c.req.param('entryId'));
+
+    if (!entry) {
+        return c.json({ error: 'Knowledge entry not found' }, 404);
+    }
+
+    return c.json(entry);
+});
+
+// update a knowledge base entry's title and/or content
+app.put('/api/user/:userId/knowledge/:entryId', async (c) => {
+    const parsed = parseKnowledgeBody(await c.req.json().catch(() => null), true);
+
+    if (typeof parsed === 'string') {
+        return c.json({ error: parsed }, 400);
+    }
+
+    try {
+        const entry = await new KnowledgeManager(c.env).updateEntry(c.req.param('userId'), c.req.param('entryId'), parsed);
+
+        if (!entry) {
+            return c.json({ error: 'Knowledge entry not found' }, 404);
+        }
+
+        return c.json(entry);
+    } catch (error) {
+        console.error('Error updating knowledge entry:', error);
+        return c.json({
+            error: 'Failed to update knowledge entry',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, 500);
+    }
+});
+
+// delete a knowledge base entry and its vectors
+app.delete('/api/user/:userId/knowledge/:entryId', async (c) => {
+    const deleted = await new KnowledgeManager(c.env).deleteEntry(c.req.param('userId'), c.req.param('entryId'));
+
+    if (!deleted) {
+        return c.json({ error: 'Knowledge entry not found' }, 404);
+    }
+
+    return c.json({ success: true });
+});
+
 export { PersonalAssistant, TaskWorkflow };
 
+// Must match the crons in wrangler.toml
+const CLEANUP_CRON = '0 3 * * *';
+const BRIEFING_CRON = '0 * * * *';
+
 // Cloudflare Worker entry point
 export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
         return app.fetch(request, env, ctx);
     },
+
+    // Cron triggers (see [triggers] in wrangler.toml)
+    async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+        console.log(`[Scheduled] Cron ${controller.cron} fired`);
+
+        switch (controller.cron) {
+            case CLEANUP_CRON:
+                // Clean up old data for each active user
+                ctx.waitUntil(startCleanupWorkflows(env, controller.scheduledTime));
+                break;
+
+            case BRIEFING_CRON:
+                // Start the briefings due in the coming hour
+                ctx.waitUntil(startBriefingWorkflows(env, controller.scheduledTime));
+                break;
+
+            default:
+                console.warn(`[Scheduled] No job for cron ${controller.cron}`);
+        }
+    },
 };
\ No newline at end of file
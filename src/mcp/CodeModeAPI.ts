@@ -1,5 +1,6 @@
 import { ALL_TOOLS } from "./tools/index";
 import { ToolDefinition } from "../types/tools";
+import { JsonSchema, zodToJsonSchema, describeJsonSchema, generateExample } from "./ZodSchema";
 
 /**
  * Tool Documentation Generator
@@ -21,7 +22,8 @@ export class ToolDocumentation {
 ### ${tool.name}
 ${tool.description}
 
-Parameters: ${this.formatSchema(tool.parameters)}
+Parameters:
+${this.formatSchema(tool.parameters)}
 
 Example:
 \`\`\`json
@@ -37,7 +39,7 @@ Example:
 ${docs}
 
 ## Important Notes:
-- All tool calls require user confirmation before execution
+- Tool calls may require user confirmation before execution, depending on the user's tool policies
 - Parameters are validated using Zod schemas
 - Invalid parameters will result in execution failure
 - Only use tools when necessary to fulfill the user's request
@@ -46,56 +48,40 @@ ${docs}
 
   /**
    * Generate example parameters for a tool
+   *
+   * Built from the tool's Zod schema and checked against it, so the
+   * example can never drift from what validation accepts
    */
   private static generateParamsExample(tool: ToolDefinition): string {
-    // Generate simple example based on tool name
-    switch (tool.name) {
-      case 'createTask':
-        return `{
-    "title": "Example task",
-    "priority": "medium"
-  }`;
-      case 'listTasks':
-        return `{
-    "filter": "pending"
-  }`;
-      case 'updateTask':
-        return `{
-    "taskId": "task-id-here",
-    "updates": {
-      "title": "Updated title"
-    }
-  }`;
-      case 'completeTask':
-        return `{
-    "taskId": "task-id-here"
-  }`;
-      case 'deleteTask':
-        return `{
-    "taskId": "task-id-here"
-  }`;
-      case 'getWeather':
-        return `{
-    "city": "London",
-    "countryCode": "GB"
-  }`;
-      case 'sendEmail':
-        return `{
-    "to": "user@example.com",
-    "subject": "Subject",
-    "textBody": "Email message body text here"
-  }`;
-      default:
-        return `{}`;
+    const example = generateExample(this.getJsonSchema(tool));
+
+    const validation = tool.parameters.safeParse(example);
+    if (!validation.success) {
+      console.warn(`[ToolDocumentation] Generated example for ${tool.name} does not validate:`, validation.error.message);
     }
+
+    return JSON.stringify(example, null, 2).replace(/\n/g, '\n  ');
+  }
+
+  /**
+   * Format Zod schema as a list of fields with types, optionality and constraints
+   */
+  private static formatSchema(schema: ToolDefinition['parameters']): string {
+    return describeJsonSchema(zodToJsonSchema(schema));
   }
 
   /**
-   * Format Zod schema as a simple string description
+   * Get the JSON Schema for a tool's parameters
    */
-  private static formatSchema(schema: any): string {
-    // Simple description - in production you might want to introspect the Zod schema
-    return "See example for required/optional parameters";
+  static getJsonSchema(tool: ToolDefinition): JsonSchema {
+    return zodToJsonSchema(tool.parameters);
+  }
+
+  /**
+   * Get JSON Schemas for all tools, keyed by tool name
+   */
+  static getAllJsonSchemas(): Record<string, JsonSchema> {
+    return Object.fromEntries(ALL_TOOLS.map(tool => [tool.name, this.getJsonSchema(tool)]));
   }
 
   /**
@@ -120,3 +106,11 @@ ${docs}
 export function generateToolDocs(): string {
   return ToolDocumentation.generateToolDocs();
 }
+
+/**
+ * Helper function for exporting tool parameter schemas as JSON Schema
+ * Used by subsystems that need a schema outside of Zod (function calling, UI forms)
+ */
+export function getToolJsonSchemas(): Record<string, JsonSchema> {
+  return ToolDocumentation.getAllJsonSchemas();
+}
@@ -1,4 +1,6 @@
-import { ConfirmationRequest, ConfirmationResponse, ToolCallSummary } from "../types/tools";
+import { ConfirmationRequest, ConfirmationResponse, ConfirmationDecision, ToolCallSummary, StoredConfirmation } from "../types/tools";
+
+const STORAGE_PREFIX = 'confirmation:';
 
 /**
  * Pending Confirmation State
@@ -9,27 +11,42 @@ interface PendingConfirmation {
     code: string;
     toolCalls: ToolCallSummary[];
     timestamp: number;
-    resolve: (approved: boolean) => void;
+    resolve: (decision: ConfirmationDecision) => void;
     reject: (error: Error) => void;
     timeoutId: ReturnType<typeof setTimeout>; 
 }
 
+/**
+ * Outcome of handling a confirmation response
+ * - resolved: an in-memory waiter picked up the decision
+ * - resumed: the waiter was lost (hibernation/eviction); the caller must run the stored tool calls
+ * - not_found: unknown or expired request
+ */
+export type ConfirmationOutcome =
+    | { status: 'resolved'; toolCalls: ToolCallSummary[] }
+    | { status: 'resumed'; confirmation: StoredConfirmation }
+    | { status: 'not_found' };
+
 /**
  * Confirmation Handler
  * 
  * Manages user confirmation for code execution:
  * - Creates confirmation requests with unique IDs
+ * - Persists each request (with its tool calls) to Durable Object storage
  * - Waits for user approval via WebSocket
+ * - Hands stored requests back for execution after the in-memory waiter is lost
  * - Enforces timeout (default 60 seconds)
  * - Cleans up pending requests
  */
 export class ConfirmationHandler {
     private pendingConfirmations: Map<string, PendingConfirmation>;
     private defaultTimeout: number;
+    private storage?: DurableObjectStorage;
 
-    constructor(defaultTimeout: number = 60000) {
+    constructor(defaultTimeout: number = 60000, storage?: DurableObjectStorage) {
         this.pendingConfirmations = new Map();
         this.defaultTimeout = defaultTimeout;
+        this.storage = storage;
     }
 
     /**
@@ -39,7 +56,7 @@ export class ConfirmationHandler {
      * @param toolCalls - List of tool calls extracted from code
      * @param sendToUser - Callback function to send confirmation request to user via WebSocket
      * @param timeout - Optional timeout in milliseconds (default: 60000)
-     * @returns Promise<boolean> - Resolves to true if approved, false if rejected
+     * @returns Promise<ConfirmationDecision> - Whether the user approved, plus any parameters they edited
      */
     async requestConfirmation(
         userId: string,
@@ -47,7 +64,7 @@ export class ConfirmationHandler {
         toolCalls: ToolCallSummary[],
         sendToUser: (request: ConfirmationRequest) => void,
         timeout?: number
-    ): Promise<boolean> {
+    ): Promise<ConfirmationDecision> {
 
         const requestId = this.generateRequestId();
         const timeoutMs = timeout || this.defaultTimeout;
@@ -64,11 +81,21 @@ export class ConfirmationHandler {
             timestamp: Date.now(),
         };
 
-        const confirmationPromise = new Promise<boolean>((resolve, reject) => {
+        await this.storage?.put<StoredConfirmation>(STORAGE_PREFIX + requestId, {
+          requestId,
+          userId,
+          code,
+          toolCalls,
+          timestamp: request.timestamp,
+          expiresAt: request.timestamp + timeoutMs,
+        });
+
+        const confirmationPromise = new Promise<ConfirmationDecision>((resolve, reject) => {
             const timeoutId = setTimeout(() => {
                 console.log(`[ConfirmationHandler] Request ${requestId} timed out after ${timeoutMs}ms`);
                 this.pendingConfirmations.delete(requestId);
-                resolve(false); 
+                void this.deleteStored(requestId);
+                resolve({ approved: false }); 
         }, timeoutMs);
         
         this.pendingConfirmations.set(requestId, {
@@ -89,27 +116,36 @@ export class ConfirmationHandler {
       } catch (error) {
         console.error(`[ConfirmationHandler] Failed to send confirmation request:`, error);
         this.cancelConfirmation(requestId);
-        return false;
+        return { approved: false };
       }
 
-      const approved = await confirmationPromise;
+      const decision = await confirmationPromise;
 
-      console.log(`[ConfirmationHandler] Request ${requestId} ${approved ? 'APPROVED' : 'REJECTED'}`);
-      return approved;
+      console.log(`[ConfirmationHandler] Request ${requestId} ${decision.approved ? 'APPROVED' : 'REJECTED'}${decision.editedParameters ? ' (with edits)' : ''}`);
+      return decision;
     }
 
     /**
      * Handle confirmation response from user
      * 
      * @param response - User's confirmation response
-     * @returns boolean - true if response was processed, false if request not found
+     * @returns ConfirmationOutcome - how the response was processed
      */
-    handleConfirmationResponse(response: ConfirmationResponse): boolean {
+    async handleConfirmationResponse(response: ConfirmationResponse): Promise<ConfirmationOutcome> {
       const pending = this.pendingConfirmations.get(response.requestId);
 
       if (!pending) {
-        console.warn(`[ConfirmationHandler] Confirmation response for unknown request: ${response.requestId}`);
-        return false;
+        // The waiting promise did not survive hibernation; fall back to the stored request
+        const stored = await this.storage?.get<StoredConfirmation>(STORAGE_PREFIX + response.requestId);
+        await this.deleteStored(response.requestId);
+
+        if (!stored || stored.expiresAt < Date.now()) {
+          console.warn(`[ConfirmationHandler] Confirmation response for unknown request: ${response.requestId}`);
+          return { status: 'not_found' };
+        }
+
+        console.log(`[ConfirmationHandler] Resuming stored request ${response.requestId}: ${response.approved ? 'APPROVED' : 'REJECTED'}`);
+        return { status: 'resumed', confirmation: stored };
       }
 
       console.log(`[ConfirmationHandler] Processing response for ${response.requestId}: ${response.approved ? 'APPROVED' : 'REJECTED'}`);
@@ -118,12 +154,17 @@ export class ConfirmationHandler {
       clearTimeout(pending.timeoutId);
 
       
-      pending.resolve(response.approved);
+      pending.resolve({
+        approved: response.approved,
+        editedParameters: response.approved ? response.editedParameters : undefined,
+        itemApprovals: response.itemApprovals,
+      });
 
       
       this.pendingConfirmations.delete(response.requestId);
+      await this.deleteStored(response.requestId);
 
-      return true;
+      return { status: 'resolved', toolCalls: pending.toolCalls };
     }
     
     /**
@@ -137,9 +178,11 @@ export class ConfirmationHandler {
       if (pending) {
         console.log(`[ConfirmationHandler] Cancelling request: ${requestId}`);
         clearTimeout(pending.timeoutId);
-        pending.resolve(false); // Reject on cancel
+        pending.resolve({ approved: false }); // Reject on cancel
         this.pendingConfirmations.delete(requestId);
       }
+
+      void this.deleteStored(requestId);
     }
 
     /**
@@ -194,6 +237,50 @@ export class ConfirmationHandler {
       return this.pendingConfirmations.size;
     }
 
+    /**
+     * Remove expired requests from storage
+     * Called from the Durable Object alarm, so it also covers requests whose waiter was lost
+     *
+     * @returns Expiry time of the earliest remaining request, or null if none remain
+     */
+    async expireStoredConfirmations(): Promise<number | null> {
+      if (!this.storage) {
+        return null;
+      }
+
+      const now = Date.now();
+      const stored = await this.storage.list<StoredConfirmation>({ prefix: STORAGE_PREFIX });
+      const expiredKeys: string[] = [];
+      let nextExpiry: number | null = null;
+
+      for (const [key, confirmation] of stored) {
+        if (confirmation.expiresAt <= now) {
+          expiredKeys.push(key);
+          this.cancelConfirmation(confirmation.requestId);
+        } else if (nextExpiry === null || confirmation.expiresAt < nextExpiry) {
+          nextExpiry = confirmation.expiresAt;
+        }
+      }
+
+      if (expiredKeys.length > 0) {
+        await this.storage.delete(expiredKeys);
+        console.log(`[ConfirmationHandler] Expired ${expiredKeys.length} stored confirmation(s)`);
+      }
+
+      return nextExpiry;
+    }
+
+    /**
+     * Delete a stored request
+     */
+    private async deleteStored(requestId: string): Promise<void> {
+      try {
+        await this.storage?.delete(STORAGE_PREFIX + requestId);
+      } catch (error) {
+        console.error(`[ConfirmationHandler] Failed to delete stored request ${requestId}:`, error);
+      }
+    }
+
     /**
      * Generate unique request ID
      */
@@ -225,9 +312,17 @@ export class ConfirmationHandler {
     }
   }
 
+  /**
+   * Whether the tool call at `index` of a batched request was approved
+   * Falls back to the request-wide decision when no per-item answer was given
+   */
+  export function isToolCallApproved(decision: ConfirmationDecision, index: number): boolean {
+    return decision.approved && (decision.itemApprovals?.[index] ?? true);
+  }
+
   /**
    * Helper function to create a ConfirmationHandler instance
    */
-  export function createConfirmationHandler(timeout?: number): ConfirmationHandler {
-    return new ConfirmationHandler(timeout);
+  export function createConfirmationHandler(timeout?: number, storage?: DurableObjectStorage): ConfirmationHandler {
+    return new ConfirmationHandler(timeout, storage);
   }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { ToolDefinition, ToolPolicy, ToolRiskLevel } from "../types/tools";
+import { mergePreference, readPreference } from "../agent/preferences";
+
+/**
+ * Policy applied when the user has not chosen one for a tool
+ * Read-only tools run without prompting; anything that changes state or
+ * leaves the system still asks first.
+ */
+export const DEFAULT_POLICY_BY_RISK: Record<ToolRiskLevel, ToolPolicy> = {
+  'read': 'auto_approve',
+  'write': 'ask',
+  'external-send': 'ask',
+};
+
+const TOOL_POLICIES: ToolPolicy[] = ['ask', 'auto_approve', 'deny'];
+
+const TOOL_POLICIES_BY_STRICTNESS: ToolPolicy[] = ['auto_approve', 'ask', 'deny'];
+
+/**
+ * Check that a value is a known policy
+ */
+export function isToolPolicy(value: unknown): value is ToolPolicy {
+  return typeof value === 'string' && (TOOL_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Read the per-tool policies out of a users.preferences JSON blob
+ * Unknown values are ignored so a bad write can never disable prompting
+ */
+export function parseToolPolicies(preferences: string | null | undefined): Record<string, ToolPolicy> {
+  const stored = readPreference(preferences, 'toolPolicies', z.record(z.unknown()), {});
+
+  const policies: Record<string, ToolPolicy> = {};
+  for (const [toolName, policy] of Object.entries(stored)) {
+    if (isToolPolicy(policy)) {
+      policies[toolName] = policy;
+    }
+  }
+  return policies;
+}
+
+/**
+ * Resolve the effective policy for a tool: the user's choice, else the risk default
+ */
+export function resolveToolPolicy(tool: ToolDefinition, policies: Record<string, ToolPolicy>): ToolPolicy {
+  return policies[tool.name] ?? DEFAULT_POLICY_BY_RISK[tool.riskLevel];
+}
+
+/**
+ * The stricter of two policies: deny over ask over auto_approve
+ * A call that runs another tool (scheduleAction) needs both tools' approval.
+ */
+export function stricterToolPolicy(a: ToolPolicy, b: ToolPolicy): ToolPolicy {
+  return TOOL_POLICIES_BY_STRICTNESS.indexOf(a) >= TOOL_POLICIES_BY_STRICTNESS.indexOf(b) ? a : b;
+}
+
+/**
+ * Merge policy changes into a users.preferences JSON blob
+ */
+export function mergeToolPolicies(
+  preferences: string | null | undefined,
+  updates: Record<string, ToolPolicy>
+): string {
+  return mergePreference(preferences, 'toolPolicies', { ...parseToolPolicies(preferences), ...updates });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { describeJsonSchema, generateExample, zodToJsonSchema } from './ZodSchema';
+
+describe('zodToJsonSchema', () => {
+  it('marks fields required unless they are optional or defaulted', () => {
+    const schema = zodToJsonSchema(z.object({
+      title: z.string(),
+      notes: z.string().optional(),
+      priority: z.enum(['low', 'high']).default('low'),
+    }));
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['title']);
+    expect(schema.properties?.priority).toEqual({ type: 'string', enum: ['low', 'high'], default: 'low' });
+  });
+
+  it('carries string and number constraints', () => {
+    expect(zodToJsonSchema(z.string().min(1).max(200))).toEqual({ type: 'string', minLength: 1, maxLength: 200 });
+    expect(zodToJsonSchema(z.string().length(3))).toEqual({ type: 'string', minLength: 3, maxLength: 3 });
+    expect(zodToJsonSchema(z.string().email())).toEqual({ type: 'string', format: 'email' });
+    expect(zodToJsonSchema(z.number().int().min(0).max(10))).toEqual({ type: 'integer', minimum: 0, maximum: 10 });
+  });
+
+  it('keeps descriptions on wrapped schemas', () => {
+    const schema = zodToJsonSchema(z.string().nullable().describe('Due date'));
+    expect(schema).toEqual({ type: 'string', nullable: true, description: 'Due date' });
+  });
+
+  it('describes refined and transformed schemas by their input', () => {
+    const schema = zodToJsonSchema(z.array(z.number()).min(1).max(5).refine(values => values.length > 0));
+    expect(schema).toEqual({ type: 'array', items: { type: 'number' }, minItems: 1, maxItems: 5 });
+  });
+
+  it('falls back to an untyped schema for unsupported types', () => {
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]).describe('Either'))).toEqual({ description: 'Either' });
+  });
+});
+
+describe('describeJsonSchema', () => {
+  it('lists each field with its type, requiredness and constraints', () => {
+    const schema = zodToJsonSchema(z.object({
+      title: z.string().min(1).max(200).describe('Task title'),
+      tags: z.array(z.string().max(20)).optional(),
+    }));
+
+    expect(describeJsonSchema(schema)).toBe([
+      '- `title` (string, required, length 1-200): Task title',
+      '- `tags` (array, optional, items: string max length 20)',
+    ].join('\n'));
+  });
+
+  it('nests object fields', () => {
+    const schema = zodToJsonSchema(z.object({ params: z.object({ id: z.string() }) }));
+    expect(describeJsonSchema(schema)).toBe('- `params` (object, required)\n  - `id` (string, required)');
+  });
+
+  it('says when there are no parameters', () => {
+    expect(describeJsonSchema(zodToJsonSchema(z.object({})))).toBe('- (no parameters)');
+  });
+});
+
+describe('generateExample', () => {
+  it('fills required fields only, with values that pass the schema', () => {
+    const tool = z.object({
+      taskTitle: z.string().min(20),
+      count: z.number().int().min(3),
+      email: z.string().email(),
+      priority: z.enum(['low', 'high']),
+      ids: z.array(z.string()).min(2),
+      notes: z.string().optional(),
+    });
+
+    const example = generateExample(zodToJsonSchema(tool));
+
+    expect(example).toEqual({
+      taskTitle: 'Example task titlexx',
+      count: 3,
+      email: 'user@example.com',
+      priority: 'low',
+      ids: ['Example ids', 'Example ids'],
+    });
+    expect(tool.safeParse(example).success).toBe(true);
+  });
+
+  it('truncates strings to their maximum length', () => {
+    expect(generateExample({ type: 'string', maxLength: 4 }, 'title')).toBe('Exam');
+  });
+});
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../types/tools';
+
+/**
+ * JSON Schema subset produced from our Zod tool schemas
+ */
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: unknown;
+  nullable?: boolean;
+}
+
+/**
+ * Function-calling definition accepted by the Workers AI `tools` parameter
+ */
+export interface FunctionToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+/**
+ * Convert a Zod schema into JSON Schema
+ *
+ * Covers the Zod types used by tool parameter schemas; anything else
+ * falls back to an untyped schema so the field still appears.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  const description: string | undefined = schema.description;
+
+  const withDescription = (result: JsonSchema): JsonSchema =>
+    description ? { ...result, description } : result;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(field);
+        if (!field.isOptional()) {
+          required.push(key);
+        }
+      }
+
+      return withDescription({ type: 'object', properties, required });
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        switch (check.kind) {
+          case 'min': result.minLength = check.value; break;
+          case 'max': result.maxLength = check.value; break;
+          case 'length': result.minLength = check.value; result.maxLength = check.value; break;
+          case 'email': result.format = 'email'; break;
+          case 'uuid': result.format = 'uuid'; break;
+          case 'url': result.format = 'uri'; break;
+          case 'datetime': result.format = 'date-time'; break;
+        }
+      }
+      return withDescription(result);
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        switch (check.kind) {
+          case 'int': result.type = 'integer'; break;
+          case 'min': result.minimum = check.value; break;
+          case 'max': result.maximum = check.value; break;
+        }
+      }
+      return withDescription(result);
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] });
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral: {
+      const value = (schema as z.ZodLiteral<string | number>).value;
+      return withDescription({ type: typeof value, enum: [value] });
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array = schema as z.ZodArray<z.ZodTypeAny>;
+      const result: JsonSchema = { type: 'array', items: zodToJsonSchema(array.element) };
+      if (array._def.minLength) result.minItems = array._def.minLength.value;
+      if (array._def.maxLength) result.maxItems = array._def.maxLength.value;
+      return withDescription(result);
+    }
+
+    // Free-form key/value maps, e.g. another tool's parameters
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({ type: 'object' });
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return withDescription(zodToJsonSchema(def.innerType));
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription({ ...zodToJsonSchema(def.innerType), nullable: true });
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription({ ...zodToJsonSchema(def.innerType), default: def.defaultValue() });
+
+    // Preprocess/refine/transform wrappers: describe the schema the value ends up validated against
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(zodToJsonSchema(def.schema));
+
+    default:
+      return withDescription({});
+  }
+}
+
+/**
+ * Build a Workers AI function-calling definition from a tool
+ */
+export function toFunctionTool(tool: ToolDefinition): FunctionToolDefinition {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: zodToJsonSchema(tool.parameters),
+    },
+  };
+}
+
+/**
+ * Describe the fields of an object schema as a markdown list for the LLM prompt
+ *
+ * e.g. - `title` (string, required, length 1-200)
+ */
+export function describeJsonSchema(schema: JsonSchema, indent: string = ''): string {
+  if (!schema.properties || Object.keys(schema.properties).length === 0) {
+    return `${indent}- (no parameters)`;
+  }
+
+  const required = new Set(schema.required || []);
+
+  return Object.entries(schema.properties).map(([key, field]) => {
+    const details = [
+      field.type || 'any',
+      required.has(key) ? 'required' : 'optional',
+      ...describeConstraints(field),
+    ];
+
+    let line = `${indent}- \`${key}\` (${details.join(', ')})`;
+    if (field.description) {
+      line += `: ${field.description}`;
+    }
+
+    if (field.type === 'object' && field.properties) {
+      line += `\n${describeJsonSchema(field, `${indent}  `)}`;
+    }
+    if (field.type === 'array' && field.items?.type === 'object') {
+      line += `\n${describeJsonSchema(field.items, `${indent}  `)}`;
+    }
+
+    return line;
+  }).join('\n');
+}
+
+/**
+ * List the constraints of a single field in plain words
+ */
+function describeConstraints(field: JsonSchema): string[] {
+  const constraints: string[] = [];
+
+  if (field.enum) {
+    constraints.push(`one of: ${field.enum.map(value => JSON.stringify(value)).join(' | ')}`);
+  }
+  if (field.format) {
+    constraints.push(`format: ${field.format}`);
+  }
+
+  if (field.minLength !== undefined && field.minLength === field.maxLength) {
+    constraints.push(`exactly ${field.minLength} characters`);
+  } else if (field.minLength !== undefined && field.maxLength !== undefined) {
+    constraints.push(`length ${field.minLength}-${field.maxLength}`);
+  } else if (field.minLength !== undefined) {
+    constraints.push(`min length ${field.minLength}`);
+  } else if (field.maxLength !== undefined) {
+    constraints.push(`max length ${field.maxLength}`);
+  }
+
+  if (field.minimum !== undefined) constraints.push(`min ${field.minimum}`);
+  if (field.maximum !== undefined) constraints.push(`max ${field.maximum}`);
+  if (field.minItems !== undefined) constraints.push(`min items ${field.minItems}`);
+  if (field.maxItems !== undefined) constraints.push(`max items ${field.maxItems}`);
+  if (field.default !== undefined) constraints.push(`default ${JSON.stringify(field.default)}`);
+
+  if (field.type === 'array' && field.items && field.items.type !== 'object') {
+    constraints.push(`items: ${[field.items.type || 'any', ...describeConstraints(field.items)].join(' ')}`);
+  }
+
+  return constraints;
+}
+
+/**
+ * Generate a minimal example value that satisfies a schema
+ *
+ * Objects only include their required fields; optional fields are left to the
+ * parameter description so the example stays valid and short.
+ */
+export function generateExample(schema: JsonSchema, key: string = 'value'): unknown {
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const example: Record<string, unknown> = {};
+      for (const field of schema.required || []) {
+        const fieldSchema = schema.properties?.[field];
+        if (fieldSchema) {
+          example[field] = generateExample(fieldSchema, field);
+        }
+      }
+      return example;
+    }
+
+    case 'string':
+      return exampleString(schema, key);
+
+    case 'number':
+    case 'integer': {
+      const value = schema.minimum ?? (schema.maximum !== undefined ? Math.min(schema.maximum, 1) : 1);
+      return schema.type === 'integer' ? Math.ceil(value) : value;
+    }
+
+    case 'boolean':
+      return true;
+
+    case 'array': {
+      const count = schema.minItems ?? 1;
+      return Array.from({ length: count }, () => generateExample(schema.items || {}, key));
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build an example string honouring format and length constraints
+ */
+function exampleString(schema: JsonSchema, key: string): string {
+  switch (schema.format) {
+    case 'email': return 'user@example.com';
+    case 'uuid': return '123e4567-e89b-12d3-a456-426614174000';
+    case 'uri': return 'https://example.com';
+    case 'date-time': return '2025-01-01T09:00:00Z';
+  }
+
+  // camelCase field name -> "Example field name"
+  let value = `Example ${key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()}`;
+
+  if (schema.maxLength !== undefined) {
+    value = value.slice(0, schema.maxLength);
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, 'x');
+  }
+
+  return value;
+}
@@ -6,6 +6,7 @@ import { ToolDefinition, ToolContext, ToolResult, SendEmailSchema, SendEmailPara
   export const sendEmailTool: ToolDefinition = {
     name: 'sendEmail',
     description: 'Send a transactional email via PostMarkApp',
+    riskLevel: 'external-send',
     parameters: SendEmailSchema,
     async execute(params: SendEmailParams, context: ToolContext): Promise<ToolResult> {
       try {
@@ -0,0 +1,31 @@
+import { ToolDefinition, ToolContext, ToolResult, ScheduleActionParams, ScheduleActionSchema } from "../../types/tools";
+
+/**
+   * Run another tool call at a later time, e.g. send an email tomorrow at 9am
+   */
+export const scheduleActionTool: ToolDefinition = {
+    name: 'scheduleAction',
+    description: 'Run another tool at a later time instead of now, e.g. send an email tomorrow at 9am or check the weather on Friday morning. The result is posted to the conversation when it runs',
+    // The scheduled call runs unattended, so it is approved now like a send
+    riskLevel: 'external-send',
+    parameters: ScheduleActionSchema,
+    async execute(params: ScheduleActionParams, context: ToolContext): Promise<ToolResult> {
+
+        try {
+            const { tool, params: toolParams, runAt } = params;
+
+            const scheduled = await context.agent.scheduleAction(context.userId, tool, toolParams, runAt, context.confirmed ?? false);
+
+            return {
+                success: true,
+                data: scheduled,
+                message: `Scheduled ${tool} for ${new Date(runAt * 1000).toISOString()}`,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.message || 'Failed to schedule action',
+            };
+        }
+    },
+};
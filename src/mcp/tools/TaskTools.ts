@@ -1,4 +1,6 @@
 import { ToolDefinition, ToolContext, ToolResult } from "../../types/tools";
+import { describeRecurrence } from "../../agent/recurrence";
+import { computeTaskStats, DEFAULT_STATS_DAYS } from "../../agent/stats";
 
 import {
     CreateTaskSchema,
@@ -6,21 +8,26 @@ import {
     UpdateTaskSchema,
     CompleteTaskSchema,
     DeleteTaskSchema,
+    DecomposeTaskSchema,
+    GetTaskStatsSchema,
     CreateTaskParams,
     ListTasksParams,
     UpdateTaskParams,
     CompleteTaskParams,
-    DeleteTaskParams
+    DeleteTaskParams,
+    DecomposeTaskParams,
+    GetTaskStatsParams
 } from '../../types/tools'
 
 // Create a new Task 
 export const createTaskTool: ToolDefinition = {
     name: 'createTask',
     description: 'Create a new task with title, optional description, due date, and priority',
+    riskLevel: 'write',
     parameters: CreateTaskSchema,
     async execute(params: CreateTaskParams, context: ToolContext): Promise<ToolResult> {
         try {
-            const { title, description, dueDate, priority = 'medium' } = params; 
+            const { title, description, dueDate, priority = 'medium', reminderOffsets, recurrence } = params; 
 
             // Call the PersonalAssistant's createTask method
             const task = await context.agent.createTask(
@@ -28,13 +35,17 @@ export const createTaskTool: ToolDefinition = {
                 title,
                 description,
                 dueDate,
-                priority
+                priority,
+                reminderOffsets,
+                recurrence
             );
 
             return {
                 success: true,
                 data: task,
-                message: `Task "${title}" created successfully`,
+                message: task.recurrence
+                    ? `Task "${title}" created successfully, repeating ${describeRecurrence(task.recurrence)}`
+                    : `Task "${title}" created successfully`,
             };
         } catch (error: any) {
             return {
@@ -49,6 +60,7 @@ export const createTaskTool: ToolDefinition = {
 export const listTasksTool: ToolDefinition = {
     name: 'listTasks',
     description: 'List all tasks, optionally filtered by completion status',
+    riskLevel: 'read',
     parameters: ListTasksSchema,
     async execute(params: ListTasksParams, context: ToolContext): Promise<ToolResult> {
         try {
@@ -76,6 +88,7 @@ export const listTasksTool: ToolDefinition = {
   export const updateTaskTool: ToolDefinition = {
     name: 'updateTask',
     description: 'Update task fields (title, description, due date, priority)',
+    riskLevel: 'write',
     parameters: UpdateTaskSchema,
     async execute(params: UpdateTaskParams, context: ToolContext): Promise<ToolResult> {
       try {
@@ -103,17 +116,20 @@ export const listTasksTool: ToolDefinition = {
   export const completeTaskTool: ToolDefinition = {
     name: 'completeTask',
     description: 'Mark a task as completed',
+    riskLevel: 'write',
     parameters: CompleteTaskSchema,
     async execute(params: CompleteTaskParams, context: ToolContext): Promise<ToolResult> {
       try {
         const { taskId } = params;
 
-        const task = await context.agent.completeTask(context.userId, taskId);
+        const { task, nextOccurrence } = await context.agent.completeTask(context.userId, taskId);
 
         return {
           success: true,
-          data: task,
-          message: 'Task marked as completed',
+          data: { ...task, nextOccurrence },
+          message: nextOccurrence
+            ? `Task marked as completed; next occurrence due ${new Date(nextOccurrence.dueDate * 1000).toISOString()}`
+            : 'Task marked as completed',
         };
       } catch (error: any) {
         return {
@@ -130,6 +146,7 @@ export const listTasksTool: ToolDefinition = {
   export const deleteTaskTool: ToolDefinition = {
     name: 'deleteTask',
     description: 'Delete a task permanently',
+    riskLevel: 'write',
     parameters: DeleteTaskSchema,
     async execute(params: DeleteTaskParams, context: ToolContext): Promise<ToolResult> {
       try {
@@ -148,4 +165,60 @@ export const listTasksTool: ToolDefinition = {
         };
       }
     },
-  };
\ No newline at end of file
+  };
+
+  /**
+   * Split a task into ordered subtasks
+   */
+  export const decomposeTaskTool: ToolDefinition = {
+    name: 'decomposeTask',
+    description: 'Break a larger task down into smaller ordered subtasks, due before the task itself. Runs in the background; the subtasks appear in the task list when ready',
+    riskLevel: 'write',
+    parameters: DecomposeTaskSchema,
+    async execute(params: DecomposeTaskParams, context: ToolContext): Promise<ToolResult> {
+      try {
+        const { taskId } = params;
+
+        const workflowId = await context.agent.startDecomposition(context.userId, taskId);
+
+        return {
+          success: true,
+          data: { taskId, workflowId },
+          message: 'Breaking the task down into subtasks; they will appear in the task list shortly',
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to decompose task',
+        };
+      }
+    },
+  };
+
+  /**
+   * Report completion statistics, e.g. "how productive was I this week?"
+   */
+  export const getTaskStatsTool: ToolDefinition = {
+    name: 'getTaskStats',
+    description: 'Get task statistics for a recent period: tasks created and completed, completion rate, overdue and late tasks, average time to complete, per-priority breakdown and completion streaks',
+    riskLevel: 'read',
+    parameters: GetTaskStatsSchema,
+    async execute(params: GetTaskStatsParams, context: ToolContext): Promise<ToolResult> {
+      try {
+        const { days = DEFAULT_STATS_DAYS } = params;
+
+        const stats = await computeTaskStats(context.env, context.userId, days);
+
+        return {
+          success: true,
+          data: stats,
+          message: `Completed ${stats.completed} task(s) in the last ${days} day(s)`,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to compute task statistics',
+        };
+      }
+    },
+  };
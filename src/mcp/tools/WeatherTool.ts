@@ -6,6 +6,7 @@ import { ToolDefinition, ToolContext, ToolResult, GetWeatherParams, GetWeatherSc
 export const getWeatherTool: ToolDefinition = {
     name: 'getWeather',
     description : 'Get current weather information for a city',
+    riskLevel: 'read',
     parameters: GetWeatherSchema,
     async execute(params: GetWeatherParams, context: ToolContext): Promise<ToolResult> {
 
@@ -6,9 +6,12 @@
     updateTaskTool,
     completeTaskTool,
     deleteTaskTool,
+    decomposeTaskTool,
+    getTaskStatsTool,
   } from './TaskTools';
   import { getWeatherTool } from './WeatherTool';
   import { sendEmailTool } from './EmailTool';
+  import { scheduleActionTool } from './ScheduleTool';
 
   /**
    * All available MCP tools
@@ -20,10 +23,15 @@
     updateTaskTool,
     completeTaskTool,
     deleteTaskTool,
+    decomposeTaskTool,
+    getTaskStatsTool,
 
     // External API tools
     getWeatherTool,
     sendEmailTool,
+
+    // Deferred execution of the tools above
+    scheduleActionTool,
   ];
 
   /**
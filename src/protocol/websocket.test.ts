@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+    PROTOCOL_VERSION,
+    decodeClientMessage,
+    decodeServerMessage,
+    encodeClientMessage,
+    encodeServerMessage,
+} from './websocket';
+
+const frame = (fields: Record<string, unknown>) =>
+    JSON.stringify({ timestamp: 1, version: PROTOCOL_VERSION, payload: {}, ...fields });
+
+describe('decodeClientMessage', () => {
+    it('round-trips an encoded message', () => {
+        const result = decodeClientMessage(encodeClientMessage('create_task', {
+            title: '  Pay rent  ',
+            dueDate: 1767261600,
+            recurrence: { frequency: 'monthly', byMonthDay: 1 },
+        }));
+
+        expect(result.success).toBe(true);
+        if (result.success && result.message.type === 'create_task') {
+            expect(result.message.version).toBe(PROTOCOL_VERSION);
+            expect(result.message.payload).toEqual({
+                title: 'Pay rent',
+                dueDate: 1767261600,
+                recurrence: { frequency: 'monthly', byMonthDay: 1 },
+            });
+        }
+    });
+
+    it('accepts parsed objects and frames from before versioning', () => {
+        const result = decodeClientMessage({ type: 'ping', timestamp: 1 });
+        expect(result).toEqual({
+            success: true,
+            message: { type: 'ping', payload: {}, timestamp: 1, version: PROTOCOL_VERSION, origin: undefined },
+        });
+    });
+
+    it('rejects frames that are not JSON', () => {
+        expect(decodeClientMessage('{"type": "ping"')).toMatchObject({ success: false, code: 'invalid_message' });
+        expect(decodeClientMessage('')).toMatchObject({ success: false, code: 'invalid_message' });
+    });
+
+    it('rejects JSON that is not an envelope', () => {
+        for (const raw of ['null', '[]', '"ping"', '{"payload": {}, "timestamp": 1}', '{"type": "ping", "timestamp": "now"}']) {
+            expect(decodeClientMessage(raw)).toMatchObject({ success: false, code: 'invalid_message' });
+        }
+        expect(decodeClientMessage(undefined)).toMatchObject({ success: false, code: 'invalid_message' });
+    });
+
+    it('rejects other protocol versions', () => {
+        const result = decodeClientMessage(frame({ type: 'ping', version: PROTOCOL_VERSION + 1 }));
+        expect(result).toMatchObject({
+            success: false,
+            code: 'unsupported_version',
+            details: { supported: PROTOCOL_VERSION },
+        });
+    });
+
+    it('rejects unknown types, including inherited property names', () => {
+        expect(decodeClientMessage(frame({ type: 'launch' }))).toMatchObject({ success: false, code: 'unknown_type' });
+        expect(decodeClientMessage(frame({ type: 'toString' }))).toMatchObject({ success: false, code: 'unknown_type' });
+        expect(decodeClientMessage(frame({ type: '__proto__' }))).toMatchObject({ success: false, code: 'unknown_type' });
+    });
+
+    it('rejects server message types', () => {
+        expect(decodeClientMessage(frame({ type: 'pong' }))).toMatchObject({ success: false, code: 'unknown_type' });
+    });
+
+    it('reports which payload fields are invalid', () => {
+        const result = decodeClientMessage(frame({ type: 'chat', payload: { content: '   ' } }));
+        expect(result).toMatchObject({ success: false, code: 'invalid_payload', error: 'Invalid chat payload' });
+        if (!result.success) {
+            expect(result.details).toEqual(['content: Chat message content is required']);
+        }
+    });
+
+    it('validates nested recurrence rules', () => {
+        const result = decodeClientMessage(frame({
+            type: 'create_task',
+            payload: { title: 'Standup', recurrence: { frequency: 'daily', byWeekday: ['MO'] } },
+        }));
+        expect(result).toMatchObject({
+            success: false,
+            code: 'invalid_payload',
+            details: ['recurrence.byWeekday: byWeekday only applies to weekly recurrence'],
+        });
+    });
+
+    it('treats a missing payload as empty', () => {
+        expect(decodeClientMessage(JSON.stringify({ type: 'list_tasks', timestamp: 1 })).success).toBe(true);
+        expect(decodeClientMessage(JSON.stringify({ type: 'chat', timestamp: 1 }))).toMatchObject({ code: 'invalid_payload' });
+    });
+});
+
+describe('decodeServerMessage', () => {
+    it('round-trips an encoded message with its origin', () => {
+        const result = decodeServerMessage(encodeServerMessage('error', { code: 'generation_busy', message: 'Busy' }, 'session-1'));
+        expect(result).toMatchObject({
+            success: true,
+            message: { type: 'error', payload: { code: 'generation_busy', message: 'Busy' }, origin: 'session-1' },
+        });
+    });
+
+    it('rejects unknown error codes', () => {
+        const result = decodeServerMessage(frame({ type: 'error', payload: { code: 'teapot', message: 'Short and stout' } }));
+        expect(result).toMatchObject({ success: false, code: 'invalid_payload' });
+    });
+});
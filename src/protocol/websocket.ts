@@ -0,0 +1,442 @@
+/**
+ * WebSocket protocol shared by the worker and the frontend
+ *
+ * Every frame in either direction is a `{ type, payload, timestamp, version }` envelope.
+ * Server frames caused by a client message also carry `origin`, the session id of the connection
+ * that sent it, so a device can recognise the echo of its own change among the broadcasts.
+ * Each message type has a Zod schema for its payload; receivers validate with `decode*Message`
+ * and senders build frames with `encode*Message`, so both ends work from the same definitions.
+ *
+ * This file is imported by the frontend as well, so it must not depend on worker-only types.
+ */
+import { z } from 'zod';
+
+// Bump when a change would break clients built against the previous version
+export const PROTOCOL_VERSION = 1;
+
+export const ERROR_CODES = [
+    'invalid_message', // Not JSON, or not a protocol envelope
+    'unsupported_version',
+    'unknown_type',
+    'invalid_payload',
+    'session_lost',
+    'generation_busy',
+    'not_found',
+    'internal_error',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+// ==================== Shared entities ====================
+
+// JSON Schema subset the backend derives from each tool's Zod schema
+export interface ParameterSchema {
+    type?: string;
+    description?: string;
+    properties?: Record<string, ParameterSchema>;
+    required?: string[];
+    items?: ParameterSchema;
+    enum?: Array<string | number>;
+    format?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    default?: unknown;
+    nullable?: boolean;
+}
+
+const parameterSchemaSchema: z.ZodType<ParameterSchema> = z.lazy(() => z.object({
+    type: z.string().optional(),
+    description: z.string().optional(),
+    properties: z.record(parameterSchemaSchema).optional(),
+    required: z.array(z.string()).optional(),
+    items: parameterSchemaSchema.optional(),
+    enum: z.array(z.union([z.string(), z.number()])).optional(),
+    format: z.string().optional(),
+    minLength: z.number().optional(),
+    maxLength: z.number().optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+    minItems: z.number().optional(),
+    maxItems: z.number().optional(),
+    default: z.unknown().optional(),
+    nullable: z.boolean().optional(),
+}));
+
+// D1 returns NULL for unset columns; on the wire those are simply absent
+const optionalColumn = <T extends z.ZodTypeAny>(schema: T) =>
+    schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+export const messageSchema = z.object({
+    id: z.string(),
+    role: z.enum(['user', 'assistant', 'system']),
+    content: z.string(),
+    timestamp: z.number(),
+    metadata: z.record(z.unknown()).optional(),
+});
+
+// Minutes before the due date at which to remind, e.g. [1440, 60, 0] for a day, an hour and at due time
+export const reminderOffsetsSchema = z.array(z.number().int().min(0).max(30 * 24 * 60)).max(5);
+
+export const weekdaySchema = z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+
+// Subset of an iCalendar RRULE; each occurrence is a task of its own, due at the next date in the series
+export const recurrenceSchema = z.object({
+    frequency: z.enum(['daily', 'weekly', 'monthly']),
+    interval: z.number().int().min(1).max(366).optional(), // Every n days/weeks/months, default 1
+    byWeekday: z.array(weekdaySchema).min(1).max(7).optional(), // Weekly only
+    byMonthDay: z.number().int().min(1).max(31).optional(), // Monthly only; shorter months use their last day
+    until: z.number().optional(), // Unix seconds; no occurrence is due after it
+    count: z.number().int().min(1).max(1000).optional(), // Occurrences left, including this one
+}).refine(rule => !(rule.until !== undefined && rule.count !== undefined), {
+    message: 'Use either until or count, not both',
+}).refine(rule => !rule.byWeekday || rule.frequency === 'weekly', {
+    message: 'byWeekday only applies to weekly recurrence',
+    path: ['byWeekday'],
+}).refine(rule => rule.byMonthDay === undefined || rule.frequency === 'monthly', {
+    message: 'byMonthDay only applies to monthly recurrence',
+    path: ['byMonthDay'],
+});
+
+export type Recurrence = z.output<typeof recurrenceSchema>;
+
+export const taskSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    title: z.string(),
+    description: optionalColumn(z.string()),
+    dueDate: optionalColumn(z.number()),
+    completed: z.boolean(),
+    priority: optionalColumn(z.enum(['low', 'medium', 'high'])),
+    createdAt: z.number(),
+    completedAt: optionalColumn(z.number()),
+    reminderOffsets: reminderOffsetsSchema.optional(), // Absent means the user's default offsets
+    recurrence: recurrenceSchema.optional(),
+    parentTaskId: optionalColumn(z.string()), // Set on subtasks created by decomposition
+    position: optionalColumn(z.number()), // Order among the parent's subtasks
+});
+
+export const threadSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    title: z.string().nullable(), // Generated after the first exchange unless set by the user
+    archived: z.boolean(),
+    createdAt: z.number(), // Unix seconds
+    updatedAt: z.number(),
+});
+
+// Due-date reminder raised by TaskWorkflow and pushed through the user's agent
+export const reminderSchema = z.object({
+    id: z.string(), // Fixed per workflow run, so a retried delivery is recognised
+    taskId: z.string(),
+    title: z.string(),
+    message: z.string(),
+    dueDate: z.number().optional(), // Unix seconds
+    priority: z.enum(['low', 'medium', 'high']).optional(),
+    createdAt: z.number(), // Milliseconds; earlier than delivery when it was queued while offline
+});
+
+export type Reminder = z.output<typeof reminderSchema>;
+
+export const toolRiskLevelSchema = z.enum(['read', 'write', 'external-send']);
+
+export const toolCallSummarySchema = z.object({
+    toolName: z.string(),
+    parameters: z.record(z.unknown()),
+    description: z.string().optional(),
+    riskLevel: toolRiskLevelSchema.optional(),
+    parameterSchema: parameterSchemaSchema.optional(), // Lets the client render an edit form
+});
+
+export const confirmationDecisionSchema = z.enum(['approved', 'rejected', 'approved_with_edits']);
+
+// ==================== Client -> server ====================
+
+const emptyPayload = z.object({});
+const taskPriority = z.enum(['low', 'medium', 'high']);
+
+export const clientPayloadSchemas = {
+    chat: z.object({
+        content: z.string().trim().min(1, 'Chat message content is required'),
+        clientId: z.string().regex(/^[A-Za-z0-9-]{8,64}$/).optional(), // Id shown locally until message_saved gives the stored id
+    }),
+    cancel_generation: emptyPayload,
+    regenerate: emptyPayload,
+    edit_message: z.object({
+        messageId: z.string().min(1),
+        content: z.string().trim().min(1),
+    }),
+    create_task: z.object({
+        title: z.string().trim().min(1),
+        description: z.string().optional(),
+        dueDate: z.number().optional(), // Unix seconds
+        priority: taskPriority.optional(),
+        reminderOffsets: reminderOffsetsSchema.optional(),
+        recurrence: recurrenceSchema.optional(), // Needs a dueDate
+    }),
+    list_tasks: emptyPayload,
+    complete_task: z.object({ taskId: z.string().min(1) }),
+    update_task: z.object({
+        taskId: z.string().min(1),
+        title: z.string().trim().min(1).optional(),
+        description: z.string().optional(),
+        dueDate: z.number().optional(),
+        priority: taskPriority.optional(),
+        reminderOffsets: reminderOffsetsSchema.nullable().optional(), // null goes back to the user's default
+        recurrence: recurrenceSchema.nullable().optional(), // null stops the series
+    }),
+    delete_task: z.object({ taskId: z.string().min(1) }),
+    confirmation_response: z.object({
+        requestId: z.string().min(1),
+        approved: z.boolean(),
+        timestamp: z.number().optional(),
+        decision: confirmationDecisionSchema.optional(),
+        editedParameters: z.array(z.record(z.unknown())).optional(), // One entry per tool call, only with approved_with_edits
+        rememberChoice: z.boolean().optional(), // Auto-approve (or deny) these tools from now on
+        itemApprovals: z.array(z.boolean()).optional(), // Per tool call approve/reject, one entry per tool call
+    }),
+    history: z.object({
+        before: z.string().nullish(), // nextCursor of the previous page
+        limit: z.number().int().positive().optional(),
+    }),
+    thread_list: z.object({ includeArchived: z.boolean().optional() }),
+    thread_create: z.object({ title: z.string().optional() }),
+    thread_switch: z.object({ threadId: z.string().min(1).nullable() }), // null starts a new conversation
+    thread_rename: z.object({
+        threadId: z.string().min(1),
+        title: z.string().trim().min(1),
+    }),
+    thread_archive: z.object({
+        threadId: z.string().min(1),
+        archived: z.boolean().optional(), // false restores the thread
+    }),
+    ping: emptyPayload,
+};
+
+// ==================== Server -> client ====================
+
+const threadPayload = z.object({
+    thread: threadSchema.nullable(), // null on thread_switched means a new, not yet saved conversation
+});
+
+const taskPayload = z.object({ task: taskSchema });
+
+export const serverPayloadSchemas = {
+    connected: z.object({
+        userId: z.string(),
+        sessionId: z.string(), // Matches `origin` on frames this connection caused
+        message: z.string(),
+    }),
+    pong: emptyPayload,
+    // A user message sent from one of the user's devices
+    user_message: z.object({ message: messageSchema }),
+    // The id a message sent as `clientId` was stored under; edits must use it
+    message_saved: z.object({
+        clientId: z.string(),
+        messageId: z.string(),
+    }),
+    chat_response: z.object({
+        messageId: z.string(),
+        content: z.string(),
+    }),
+    chat_delta: z.object({
+        messageId: z.string(),
+        delta: z.string(),
+    }),
+    // Final text for a streamed message; empty when the reply was only tool calls
+    chat_done: z.object({
+        messageId: z.string(),
+        content: z.string(),
+    }),
+    generation_status: z.object({ active: z.boolean() }),
+    generation_cancelled: emptyPayload,
+    // Replies superseded by regenerate
+    messages_removed: z.object({ messageIds: z.array(z.string()) }),
+    // An edited user message; everything after it has been discarded
+    message_updated: z.object({
+        messageId: z.string(),
+        content: z.string(),
+    }),
+    confirmation_request: z.object({
+        requestId: z.string(),
+        userId: z.string(),
+        code: z.string(), // JSON of the tool calls awaiting approval
+        toolCalls: z.array(toolCallSummarySchema),
+        timeout: z.number(), // Milliseconds
+        timestamp: z.number(),
+    }),
+    // Answered (or timed out) on some device; the others can dismiss their dialog
+    confirmation_resolved: z.object({
+        requestId: z.string(),
+        approved: z.boolean(),
+    }),
+    tool_execution_result: z.object({
+        toolName: z.string(),
+        success: z.boolean(),
+        output: z.unknown().optional(),
+        error: z.string().optional(),
+    }),
+    history: z.object({
+        messages: z.array(messageSchema), // Oldest first
+        hasMore: z.boolean(),
+        nextCursor: z.string().nullable(), // Send as `before` to load the previous page
+        before: z.string().nullable(),
+        threadId: z.string().nullable(),
+    }),
+    threads_list: z.object({
+        threads: z.array(threadSchema),
+        activeThreadId: z.string().nullable(),
+    }),
+    thread_created: threadPayload,
+    thread_switched: threadPayload,
+    thread_updated: threadPayload,
+    task_created: taskPayload,
+    task_updated: taskPayload,
+    task_completed: taskPayload,
+    task_deleted: z.object({ taskId: z.string() }),
+    tasks_list: z.object({
+        tasks: z.array(taskSchema),
+        count: z.number(),
+    }),
+    reminder: z.object({ reminder: reminderSchema }),
+    // The assistant's daily briefing, already stored in the conversation
+    briefing: z.object({
+        message: messageSchema,
+        date: z.string(), // The user's local date, YYYY-MM-DD
+    }),
+    // A tool call scheduled with scheduleAction ran; `message` is the system message recording it
+    scheduled_action_result: z.object({
+        actionId: z.string(),
+        toolName: z.string(),
+        success: z.boolean(),
+        output: z.unknown().optional(),
+        error: z.string().optional(),
+        message: messageSchema,
+    }),
+    error: z.object({
+        code: z.enum(ERROR_CODES),
+        message: z.string(),
+        details: z.unknown().optional(),
+    }),
+};
+
+// ==================== Types ====================
+
+type ClientPayloadSchemas = typeof clientPayloadSchemas;
+type ServerPayloadSchemas = typeof serverPayloadSchemas;
+
+export type ClientMessageType = keyof ClientPayloadSchemas;
+export type ServerMessageType = keyof ServerPayloadSchemas;
+
+// Payload as received (after validation) and as accepted when sending (before defaults and transforms)
+export type ClientPayload<T extends ClientMessageType> = z.output<ClientPayloadSchemas[T]>;
+export type ClientPayloadInput<T extends ClientMessageType> = z.input<ClientPayloadSchemas[T]>;
+export type ServerPayload<T extends ServerMessageType> = z.output<ServerPayloadSchemas[T]>;
+export type ServerPayloadInput<T extends ServerMessageType> = z.input<ServerPayloadSchemas[T]>;
+
+export interface Envelope<T extends string, P> {
+    type: T;
+    payload: P;
+    timestamp: number;
+    version: number;
+    origin?: string;
+}
+
+// Discriminated on `type`, so switching on it narrows `payload`
+export type ClientMessage = { [T in ClientMessageType]: Envelope<T, ClientPayload<T>> }[ClientMessageType];
+export type ServerMessage = { [T in ServerMessageType]: Envelope<T, ServerPayload<T>> }[ServerMessageType];
+
+export type DecodeResult<M> =
+    | { success: true; message: M }
+    | { success: false; code: ErrorCode; error: string; details?: unknown };
+
+// ==================== Encoding and decoding ====================
+
+const envelopeSchema = z.object({
+    type: z.string(),
+    payload: z.unknown(),
+    timestamp: z.number(),
+    version: z.number().int().optional(), // Clients from before versioning omit it
+    origin: z.string().optional(),
+});
+
+function formatIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+function decode<M>(raw: unknown, schemas: Record<string, z.ZodTypeAny>): DecodeResult<M> {
+    let data = raw;
+    if (typeof raw === 'string') {
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            return { success: false, code: 'invalid_message', error: 'Message is not valid JSON' };
+        }
+    }
+
+    const envelope = envelopeSchema.safeParse(data);
+    if (!envelope.success) {
+        return {
+            success: false,
+            code: 'invalid_message',
+            error: 'Message must be a { type, payload, timestamp } envelope',
+            details: formatIssues(envelope.error),
+        };
+    }
+
+    const { type, payload, timestamp, version = PROTOCOL_VERSION, origin } = envelope.data;
+
+    if (version !== PROTOCOL_VERSION) {
+        return {
+            success: false,
+            code: 'unsupported_version',
+            error: `Protocol version ${version} is not supported`,
+            details: { supported: PROTOCOL_VERSION },
+        };
+    }
+
+    if (!Object.hasOwn(schemas, type)) {
+        return { success: false, code: 'unknown_type', error: `Unknown message type: ${type}` };
+    }
+
+    const parsed = schemas[type].safeParse(payload ?? {});
+    if (!parsed.success) {
+        return {
+            success: false,
+            code: 'invalid_payload',
+            error: `Invalid ${type} payload`,
+            details: formatIssues(parsed.error),
+        };
+    }
+
+    return { success: true, message: { type, payload: parsed.data, timestamp, version, origin } as M };
+}
+
+/**
+ * Parse and validate a frame sent by the frontend
+ */
+export function decodeClientMessage(raw: unknown): DecodeResult<ClientMessage> {
+    return decode<ClientMessage>(raw, clientPayloadSchemas);
+}
+
+/**
+ * Parse and validate a frame sent by the worker
+ */
+export function decodeServerMessage(raw: unknown): DecodeResult<ServerMessage> {
+    return decode<ServerMessage>(raw, serverPayloadSchemas);
+}
+
+export function encodeClientMessage<T extends ClientMessageType>(type: T, payload: ClientPayloadInput<T>): string {
+    return JSON.stringify({ type, payload, timestamp: Date.now(), version: PROTOCOL_VERSION });
+}
+
+export function encodeServerMessage<T extends ServerMessageType>(
+    type: T,
+    payload: ServerPayloadInput<T>,
+    origin?: string
+): string {
+    return JSON.stringify({ type, payload, timestamp: Date.now(), version: PROTOCOL_VERSION, origin });
+}
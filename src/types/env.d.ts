@@ -1,3 +1,5 @@
+import type { Recurrence } from '../protocol/websocket';
+
 export interface Env {
     AI: Ai;
     // AI_GATEWAY: any;
@@ -13,8 +15,14 @@ export interface Env {
     LLM_MODEL?: string;
     LLM_MAX_TOKENS?: string;
     LLM_TEMPERATURE?: string;
+    LLM_STREAMING?: string;
+    TOOL_CALLING_MODE?: string; // 'native' (default) or 'json'
     RAG_ENABLED?: string;
     RAG_TOP_K?: string;
+    AGENT_MAX_ITERATIONS?: string;
+
+    AUTH_SECRET?: string; // HMAC key for session tokens, set with `wrangler secret put AUTH_SECRET`
+    AUTH_TOKEN_TTL_SECONDS?: string;
 
 
     OPENWEATHER_API_KEY?: string;
@@ -36,12 +44,6 @@ export interface Message {
     metadata?: Record<string, any>;
 }
 
-export interface WSMessage {
-      type: 'chat' | 'task' | 'status' | 'error' | 'confirmation_request' | 'confirmation_response' | 'tool_execution_result';
-      payload: any;
-      timestamp: number;
-  }
-
 export interface Task {
     id: string;
     userId: string;
@@ -52,6 +54,10 @@ export interface Task {
     priority?: 'low' | 'medium' | 'high';
     createdAt: number;
     completedAt?: number;
+    reminderOffsets?: number[]; // Minutes before dueDate; unset uses the user's default
+    recurrence?: Recurrence; // Set on every occurrence of a recurring task
+    parentTaskId?: string; // Set on subtasks created by decomposition
+    position?: number; // Order among the parent's subtasks
 }
 
 export interface UserPreferences { 
@@ -62,16 +68,20 @@ export interface UserPreferences {
 
 export interface AgentState {
     userId: string;
-    conversationHistory: Message[];
+    conversationHistory: Message[]; // Messages of the active thread
+    activeThreadId?: string | null; // Thread new messages go to; created on the first message if unset
     activeWebSockets: number;
     lastActivity: number;
 }
 
 export interface TaskWorkflowParams {
     userId: string;
-    taskId: string;
-    action: 'reminder' | 'decompose' | 'schedule' | 'cleanup';
+    taskId?: string; // Task the reminder or decompose run is for
+    action: 'reminder' | 'decompose' | 'schedule' | 'cleanup' | 'briefing';
+    actionId?: string; // scheduled_actions row a schedule run executes
+    runAt?: number; // When a briefing run delivers, Unix seconds
     dueDate?: number;
+    reminderOffsets?: number[]; // Minutes before dueDate, earliest reminder first
     taskDetails?: {
         title: string;
         description?: string;
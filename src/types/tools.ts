@@ -1,9 +1,18 @@
 import { z } from 'zod';
+import type { JsonSchema } from '../mcp/ZodSchema';
+import { recurrenceSchema, reminderOffsetsSchema } from '../protocol/websocket';
 
 
+// How much damage a tool can do; drives the default approval policy
+export type ToolRiskLevel = 'read' | 'write' | 'external-send';
+
+// Per-tool approval policy stored in users.preferences.toolPolicies
+export type ToolPolicy = 'ask' | 'auto_approve' | 'deny';
+
 export interface ToolDefinition {
     name: string;
     description: string;
+    riskLevel: ToolRiskLevel;
     parameters: z.ZodSchema<any>;
     execute: (params: any, context: ToolContext) => Promise<ToolResult>;
 }
@@ -12,6 +21,7 @@ export interface ToolContext {
     userId: string;
     env: any;
     agent: any;
+    confirmed?: boolean; // Approved by the user in a confirmation dialog, not by policy
 }
 
 
@@ -25,24 +35,29 @@ export interface ToolResult {
 // Task schemas
 
 // Helper to parse date strings to Unix timestamps
+const toUnixSeconds = (val: unknown) => {
+    if (typeof val === 'number') return val; // Already a timestamp
+    if (typeof val === 'string') {
+        const parsed = new Date(val).getTime();
+        return isNaN(parsed) ? undefined : Math.floor(parsed / 1000); // Convert string to Unix seconds, like due_date
+    }
+    return undefined; // Invalid type
+};
+
 const dueDatePreprocess = z.preprocess(
-    (val) => {
-        if (typeof val === 'number') return val; // Already a timestamp
-        if (typeof val === 'string') {
-            const parsed = new Date(val).getTime();
-            return isNaN(parsed) ? undefined : parsed; // Convert string to timestamp
-        }
-        return undefined; // Invalid type
-    },
+    toUnixSeconds,
     z.number().optional()
-);
+).describe('Due date as an ISO 8601 date string (e.g. "2025-06-01T17:00:00Z") or Unix timestamp');
 
 export const CreateTaskSchema = z.object({
     title: z.string().min(1).max(200),
     description: z.string().optional(),
     dueDate: dueDatePreprocess,
     priority: z.enum(['low', 'medium', 'high']).optional(),
-
+    reminderOffsets: reminderOffsetsSchema.optional()
+        .describe('Minutes before the due date to send reminders, e.g. [1440, 60, 0] for a day, an hour and at the due time. Omit to use the user\'s defaults'),
+    recurrence: recurrenceSchema.optional()
+        .describe('Repeat the task, e.g. { "frequency": "weekly", "byWeekday": ["MO", "TU", "WE", "TH", "FR"] } for every weekday or { "frequency": "monthly" } for the same day each month. Requires dueDate (the first occurrence); completing it creates the next one'),
 });
 
 export const ListTasksSchema = z.object({
@@ -56,6 +71,10 @@ export const UpdateTaskSchema = z.object({
       description: z.string().optional(),
       dueDate: dueDatePreprocess,
       priority: z.enum(['low', 'medium', 'high']).optional(),
+      reminderOffsets: reminderOffsetsSchema.nullable().optional()
+          .describe('Minutes before the due date to send reminders; null goes back to the user\'s defaults'),
+      recurrence: recurrenceSchema.nullable().optional()
+          .describe('Change how the task repeats; null stops the series after this occurrence'),
   });
 
 export const CompleteTaskSchema = z.object({
@@ -66,6 +85,15 @@ export const DeleteTaskSchema = z.object({
     taskId: z.string().uuid(),
 });
 
+export const DecomposeTaskSchema = z.object({
+    taskId: z.string().uuid(),
+});
+
+export const GetTaskStatsSchema = z.object({
+    days: z.number().int().min(1).max(365).optional()
+        .describe('How many days back to look, counting today: 7 for "this week", 30 for "this month". Defaults to 7'),
+});
+
 
 // Weather schemas
 
@@ -102,6 +130,18 @@ export interface EmailResult {
       submittedAt: string;
   }
 
+// Scheduling schemas
+
+export const ScheduleActionSchema = z.object({
+    tool: z.string().min(1)
+        .describe('Name of the tool to run later, e.g. "sendEmail" or "getWeather"'),
+    params: z.record(z.unknown())
+        .describe('Parameters for that tool, exactly as if it were called now'),
+    runAt: z.preprocess(toUnixSeconds, z.number())
+        .describe('When to run it, as an ISO 8601 date string (e.g. "2025-06-01T09:00:00Z") or Unix timestamp'),
+});
+
+
 // Tool calling with confirmation
 
 export interface ConfirmationRequest {
@@ -117,12 +157,34 @@ export interface ToolCallSummary {
     toolName: string;
     parameters: Record<string, any>;
     description: string;
+    riskLevel?: ToolRiskLevel;
+    parameterSchema?: JsonSchema; // Lets the client render an edit form
+}
+
+// Confirmation persisted to Durable Object storage so it survives hibernation
+export interface StoredConfirmation {
+    requestId: string;
+    userId: string;
+    code: string;
+    toolCalls: ToolCallSummary[];
+    timestamp: number;
+    expiresAt: number;
 }
 
 export interface ConfirmationResponse {
     requestId: string;
     approved: boolean;
     timestamp: number;
+    decision?: 'approved' | 'rejected' | 'approved_with_edits';
+    editedParameters?: Record<string, any>[]; // One entry per tool call, only with approved_with_edits
+    rememberChoice?: boolean; // Store the decision as the policy for these tools
+    itemApprovals?: boolean[]; // Per tool call approve/reject for batched requests
+}
+
+export interface ConfirmationDecision {
+    approved: boolean;
+    editedParameters?: Record<string, any>[];
+    itemApprovals?: boolean[];
 }
 
 export type CreateTaskParams = z.infer<typeof CreateTaskSchema>;
@@ -130,5 +192,8 @@ export type ListTasksParams = z.infer<typeof ListTasksSchema>;
 export type UpdateTaskParams = z.infer<typeof UpdateTaskSchema>;
 export type CompleteTaskParams = z.infer<typeof CompleteTaskSchema>;
 export type DeleteTaskParams = z.infer<typeof DeleteTaskSchema>;
+export type DecomposeTaskParams = z.infer<typeof DecomposeTaskSchema>;
+export type GetTaskStatsParams = z.infer<typeof GetTaskStatsSchema>;
+export type ScheduleActionParams = z.infer<typeof ScheduleActionSchema>;
 export type GetWeatherParams = z.infer<typeof GetWeatherSchema>;
 export type SendEmailParams = z.infer<typeof SendEmailSchema>;
\ No newline at end of file
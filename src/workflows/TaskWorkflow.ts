@@ -1,18 +1,38 @@
 import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
 import { Env, TaskWorkflowParams, ReminderResult, Task } from '../types/env';
+import { Reminder } from '../protocol/websocket';
+import { DEFAULT_REMINDER_OFFSETS, describeReminderOffset, normalizeReminderOffsets } from '../agent/reminders';
+import { CreateSubtasksRequest, DECOMPOSE_SYSTEM_PROMPT, estimateSubtaskDueDates, parseSubtaskPlan } from '../agent/decomposition';
+import { RunScheduledActionRequest, ScheduledActionRow, ScheduledActionStatus } from '../agent/scheduling';
+import { parseRetentionSettings } from '../agent/retention';
+import { toTask } from '../agent/tasks';
+import { WeatherData } from '../types/tools';
+import { BRIEFING_SYSTEM_PROMPT, BriefingToolRequest, DeliverBriefingRequest, parseBriefingSettings } from '../agent/briefing';
+import { endOfLocalDay, localDate } from '../agent/timezone';
+
+// Conversation messages deleted per cleanup step (D1 allows 100 bound parameters per query)
+const PRUNE_BATCH_SIZE = 90;
+const MAX_PRUNE_BATCHES = 50;
+
+// Tasks listed in a daily briefing, soonest due first
+const MAX_BRIEFING_TASKS = 20;
 
 /**
    * TaskWorkflow - Multi-step task orchestration using Cloudflare Workflows
    * 
    * Features:
    * - Task reminder scheduling with automatic notifications
-   * - Multi-step task decomposition
-   * - Periodic task cleanup
+   * - LLM task decomposition into ordered subtasks
+   * - Deferred execution of approved tool calls
+   * - Periodic cleanup of old tasks and conversations, per the user's retention settings
+   * - Opt-in daily briefing at the user's local time
    * - Reliable execution with automatic retries
    * - State persistence between steps
    * 
    * Usage:
    * - Triggered from PersonalAssistant when tasks are created with due dates
+   * - Cleanup runs are started for each active user by the daily cron trigger,
+   *   briefing runs by the hourly one
    * - Each step is retried automatically on failure
    * - Workflow state survives Durable Object hibernation
    */
@@ -39,6 +59,9 @@ export class TaskWorkflow extends WorkflowEntrypoint<Env, TaskWorkflowParams> {
             case 'cleanup':
             return await this.handleCleanupWorkflow(params, step);
 
+            case 'briefing':
+            return await this.handleBriefingWorkflow(params, step);
+
             default:
             console.error(`[TaskWorkflow] Unknown action: ${params.action}`);
             return {
@@ -55,10 +78,13 @@ export class TaskWorkflow extends WorkflowEntrypoint<Env, TaskWorkflowParams> {
      * 
      * Steps:
      * 1. Verify task still exists and is not completed
-     * 2. Calculate reminder time (1 day before due date)
-     * 3. Sleep until reminder time
-     * 4. Send reminder notification (via D1 or future WebSocket)
-     * 5. Mark reminder as sent
+     * 2. Calculate the reminder times from the task's offsets (minutes before the due date)
+     * 3. For each reminder time, earliest first:
+     *    a. Sleep until the reminder time
+     *    b. Recheck the task; stop if it was completed or deleted meanwhile
+     *    c. Store the reminder in the user's conversation log (D1)
+     *    d. Hand it to the user's PersonalAssistant, which pushes it to open sessions
+     *       or queues it for their next connect
      */
     private async handleReminderWorkflow(
         params: TaskWorkflowParams,
@@ -78,255 +104,738 @@ export class TaskWorkflow extends WorkflowEntrypoint<Env, TaskWorkflowParams> {
             async () => {
                 console.log(`[TaskWorkflow] Verifying task ID: ${params.taskId}`);
 
-                const result = await this.env.DB.prepare(
-                    'SELECT * FROM tasks WHERE id = ? AND user_id = ?'
-                ).bind(params.taskId, params.userId).first();
+                const result = await this.loadTask(params);
 
                 if(!result) {
                     // Business logic error - task doesn't exist (non-retryable)
                     throw new Error('Task not found');
                 }
 
-                return {
-                    id: result.id as string,
-                    userId: result.user_id as string,
-                    title: result.title as string,
-                    description: result.description as string | undefined,
-                    dueDate: result.due_date as number | undefined,
-                    completed: Boolean(result.completed),
-                    priority: (result.priority as 'low' | 'medium' | 'high') || 'medium',
-                    createdAt: result.created_at as number,
-                };
-
+                return result;
             }
         );
 
         if(task.completed) {
             console.log(`[TaskWorkflow] Task ${params.taskId} already completed, skipping reminder`);
-        return {
-          success: true,
-          message: 'Task already completed, reminder skipped',
-          reminderSent: false,
-          taskId: params.taskId,
-        };
-      }
+            return {
+                success: true,
+                message: 'Task already completed, reminder skipped',
+                reminderSent: false,
+                taskId: params.taskId,
+            };
+        }
 
-    const reminderTime = await step.do(
-        'calculate-reminder-time',
-        {
-            retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
-            timeout: '2 minutes'
-        },
-        async () => {
-            console.log(`[TaskWorkflow] Calculating reminder time for task ID: ${params.taskId}`);
+        const schedule = await step.do(
+            'calculate-reminder-times',
+            {
+                retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+                timeout: '2 minutes'
+            },
+            async () => {
+                console.log(`[TaskWorkflow] Calculating reminder times for task ID: ${params.taskId}`);
+
+                const dueDate = params.dueDate || task.dueDate;
+                if (!dueDate) {
+                    // Business logic error - no due date configured (non-retryable)
+                    throw new Error('No due date set for task');
+                }
+
+                const offsets = normalizeReminderOffsets(params.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS);
+                const now = Math.floor(Date.now() / 1000);
+
+                return {
+                    dueDate,
+                    // Times that already passed when the workflow started are skipped
+                    reminders: offsets
+                        .map(offset => ({ offset, reminderTimestamp: dueDate - offset * 60 }))
+                        .filter(reminder => reminder.reminderTimestamp > now),
+                };
+            }
+        );
 
-            const dueDate = params.dueDate || task.dueDate;
-            if (!dueDate) {
-                // Business logic error - no due date configured (non-retryable)
-                throw new Error('No due date set for task');
+        let remindersSent = 0;
+        let delivered = 0;
+
+        for (const [index, reminderTime] of schedule.reminders.entries()) {
+            await step.sleepUntil(`wait-for-reminder-${index}`, reminderTime.reminderTimestamp * 1000);
+            console.log(`[TaskWorkflow] Woke up for reminder ${index + 1} of ${schedule.reminders.length}`);
+
+            const freshTask = await step.do(
+                `recheck-task-status-${index}`,
+                {
+                    retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+                    timeout: '2 minutes'
+                },
+                async () => {
+                    console.log(`[TaskWorkflow] Rechecking task status before sending reminder`);
+                    return this.loadTask(params);
+                }
+            );
+
+            if (!freshTask || freshTask.completed) {
+                console.log(`[TaskWorkflow] Task ${params.taskId} completed or deleted, skipping remaining reminders`);
+                break;
             }
 
-            const reminderTimestamp = dueDate - (24 * 60 * 60)
-            const now = Math.floor(Date.now() / 1000);
+            const reminderMessage = `Reminder: Task "${freshTask.title}" is due ${describeReminderOffset(reminderTime.offset)} (Priority: ${freshTask.priority})`;
+            // Deterministic ID based on taskId, workflow event ID and offset for idempotency
+            const messageId = `reminder-${params.taskId}-${workflowEventId}-${reminderTime.offset}`;
+
+            await step.do(
+                `send-reminder-${index}`,
+                {
+                    retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+                    timeout: '2 minutes'
+                },
+                async () => {
+                    console.log(`[TaskWorkflow] Sending reminder for task title: ${freshTask.title}`);
+
+                    const now = Math.floor(Date.now() / 1000);
+
+                    // History is loaded per thread, so file the reminder under the user's most recently active one
+                    await this.env.DB.prepare(
+                        `INSERT INTO conversations (id, user_id, thread_id, role, content, timestamp, metadata)
+                         VALUES (?, ?, (SELECT id FROM threads WHERE user_id = ? AND archived = 0 ORDER BY updated_at DESC LIMIT 1), ?, ?, ?, ?)
+                         ON CONFLICT(id) DO NOTHING`
+                    ).bind(
+                        messageId,
+                        params.userId,
+                        params.userId,
+                        'system',
+                        reminderMessage,
+                        now,
+                        JSON.stringify({ type: 'task_reminder', taskId: params.taskId, offset: reminderTime.offset })
+                    ).run();
+
+                    console.log(`[TaskWorkflow] Reminder message stored with ID: ${messageId}`);
+                    return true;
+                }
+            );
+            remindersSent++;
+
+            const pushed = await step.do(
+                `notify-agent-${index}`,
+                {
+                    retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+                    timeout: '2 minutes'
+                },
+                async () => {
+                    const reminder: Reminder = {
+                        id: messageId, // Lets the agent and clients drop a redelivered reminder
+                        taskId: freshTask.id,
+                        title: freshTask.title,
+                        message: reminderMessage,
+                        dueDate: schedule.dueDate,
+                        priority: freshTask.priority,
+                        createdAt: Date.now(),
+                    };
+
+                    const agent = this.env.AGENT.get(this.env.AGENT.idFromName(params.userId));
+                    const response = await agent.fetch('https://agent/reminder', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify(reminder),
+                    });
+
+                    if (!response.ok) {
+                        throw new Error(`Agent rejected reminder: ${response.status} ${await response.text()}`);
+                    }
+
+                    const result = await response.json() as { delivered: boolean };
+                    console.log(`[TaskWorkflow] Reminder ${messageId} ${result.delivered ? 'pushed to open sessions' : 'queued until the user connects'}`);
+                    return result.delivered;
+                }
+            );
+            if (pushed) {
+                delivered++;
+            }
+        }
 
-            return {
-                reminderTimestamp,
-                dueDate,
-                shouldSendNow: reminderTimestamp <= now,
-                timeUntilReminder: Math.max( 0, reminderTimestamp - now)
-            };
+        return {
+            success: true,
+            message: remindersSent > 0
+                ? `Sent ${remindersSent} reminder(s) for task: ${task.title}`
+                : 'Task completed or deleted before reminder time',
+            reminderSent: remindersSent > 0,
+            scheduledFor: schedule.reminders[0]?.reminderTimestamp,
+            taskId: params.taskId,
+            data: {
+                taskTitle: task.title,
+                dueDate: schedule.dueDate,
+                remindersSent,
+                delivered, // The rest were queued for the user's next connect
+            },
+        };
+    }
+
+    // Current state of the workflow's task, or null once it has been deleted
+    private async loadTask(params: TaskWorkflowParams) {
+        const result = await this.env.DB.prepare(
+            'SELECT * FROM tasks WHERE id = ? AND user_id = ?'
+        ).bind(params.taskId, params.userId).first();
+
+        if (!result) {
+            return null;
         }
-    );
 
-      if(!reminderTime.shouldSendNow && reminderTime.timeUntilReminder > 0) {
-        await step.sleep('wait-for-reminder-time', `${reminderTime.timeUntilReminder} seconds`);
-        console.log(`[TaskWorkflow] Woke up after ${reminderTime.timeUntilReminder} s sleep`);
-      }
+        return {
+            id: result.id as string,
+            userId: result.user_id as string,
+            title: result.title as string,
+            description: result.description as string | undefined,
+            dueDate: result.due_date as number | undefined,
+            completed: Boolean(result.completed),
+            priority: (result.priority as 'low' | 'medium' | 'high') || 'medium',
+            createdAt: result.created_at as number,
+        };
+    }
 
-      const freshTask = await step.do(
-        'recheck-task-status',
+/**
+ * Workflow 2: Task Decomposition
+ *
+ * Steps:
+ * 1. Verify the task exists, is not completed and has no subtasks yet
+ * 2. Ask Workers AI for ordered subtasks; an invalid reply fails the step so it retries
+ * 3. Hand them, with due dates spaced before the parent's, to the user's PersonalAssistant,
+ *    which stores them in D1 and pushes them to open sessions
+ */
+private async handleDecomposeWorkflow(
+    params: TaskWorkflowParams,
+    step: WorkflowStep
+): Promise<ReminderResult> {
+
+    const task = await step.do(
+        'load-task',
         {
             retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
             timeout: '2 minutes'
         },
         async () => {
-            console.log(`[TaskWorkflow] Rechecking task status before sending reminder`);
-            const result = await this.env.DB.prepare(
-                'SELECT * FROM tasks WHERE id = ? AND user_id = ?'
-            ).bind(params.taskId, params.userId).first();
-
+            const result = await this.loadTask(params);
             if (!result) {
-                return null;
+                throw new Error('Task not found');
             }
 
-            return {
-                id: result.id as string,
-                userId: result.user_id as string,
-                title: result.title as string,
-                description: result.description as string | undefined,
-                dueDate: result.due_date as number | undefined,
-                completed: Boolean(result.completed),
-                priority: (result.priority as 'low' | 'medium' | 'high') || 'medium',
-                createdAt: result.created_at as number,
-            };
+            const subtasks = await this.env.DB.prepare(
+                'SELECT COUNT(*) AS count FROM tasks WHERE parent_task_id = ? AND user_id = ?'
+            ).bind(params.taskId, params.userId).first<{ count: number }>();
+
+            return { ...result, hasSubtasks: (subtasks?.count ?? 0) > 0 };
         }
     );
 
-    if (!freshTask || freshTask.completed) {
-        console.log(`[TaskWorkflow] Task ${params.taskId} completed or deleted, skipping reminder`);
+    if (task.completed || task.hasSubtasks) {
+        console.log(`[TaskWorkflow] Task ${params.taskId} is completed or already decomposed, skipping`);
         return {
-          success: true,
-          message: 'Task completed or deleted before reminder time',
-          reminderSent: false,
-          taskId: params.taskId,
+            success: true,
+            message: 'Task already completed or decomposed',
+            taskId: params.taskId,
+            data: { subtasksCreated: 0 },
         };
     }
 
-    const reminderSent = await step.do(
-        'send-reminder',
+    const plan = await step.do(
+        'generate-subtasks',
+        {
+            retries: { limit: 3, delay: '10 seconds', backoff: 'exponential' },
+            timeout: '2 minutes'
+        },
+        async () => {
+            console.log(`[TaskWorkflow] Decomposing task ${params.taskId}`);
+
+            const model = (this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast') as unknown as keyof AiModels;
+            const details = [
+                `Task: ${task.title}`,
+                task.description ? `Description: ${task.description}` : null,
+                task.dueDate ? `Due: ${new Date(task.dueDate * 1000).toISOString()}` : null,
+            ].filter(Boolean).join('\n');
+
+            const response = await this.env.AI.run(model, {
+                messages: [
+                    { role: 'system', content: DECOMPOSE_SYSTEM_PROMPT },
+                    { role: 'user', content: details },
+                ],
+                max_tokens: 800,
+                temperature: 0.3,
+            }) as { response?: unknown };
+
+            // Some models return JSON replies already parsed
+            const reply = typeof response?.response === 'string'
+                ? response.response
+                : JSON.stringify(response?.response ?? '');
+
+            return parseSubtaskPlan(reply);
+        }
+    );
+
+    const subtaskIds = await step.do(
+        'create-subtasks',
         {
             retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
             timeout: '2 minutes'
         },
         async () => {
-            console.log(`[TaskWorkflow] Sending reminder for task title: ${freshTask.title}`);
-
-            const reminderMessage = `Reminder: Task "${freshTask.title}" is due in 24 hours (Priority: ${freshTask.priority})`
-            // Deterministic ID based on taskId and workflow event ID for idempotency
-            const messageId = `reminder-${params.taskId}-${workflowEventId}`;
-
-            const now = Math.floor(Date.now() / 1000);
-
-            await this.env.DB.prepare(
-                'INSERT INTO conversations (id, user_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO NOTHING'
-            ).bind(
-              messageId,
-              params.userId,
-              'system',
-              reminderMessage,
-              now,
-              JSON.stringify({ type: 'task_reminder', taskId: params.taskId })
-            ).run();
-
-            console.log(`[TaskWorkflow] Reminder message stored with ID: ${messageId}`);
-            return true;
+            const dueDates = estimateSubtaskDueDates(plan.subtasks.length, task.dueDate);
+            const request: CreateSubtasksRequest = {
+                userId: params.userId,
+                parentTaskId: task.id,
+                subtasks: plan.subtasks.map((subtask, i) => ({ ...subtask, dueDate: dueDates[i] })),
+            };
+
+            const agent = this.env.AGENT.get(this.env.AGENT.idFromName(params.userId));
+            const response = await agent.fetch('https://agent/subtasks', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Agent rejected subtasks: ${response.status} ${await response.text()}`);
+            }
+
+            const result = await response.json() as { subtaskIds: string[] };
+            return result.subtaskIds;
         }
     );
 
     return {
         success: true,
-        message: `Reminder sent for task: ${freshTask.title}`,
-        reminderSent,
-        scheduledFor: reminderTime.reminderTimestamp,
+        message: `Split task "${task.title}" into ${subtaskIds.length} subtask(s)`,
         taskId: params.taskId,
         data: {
-            taskTitle: freshTask.title,
-            dueDate: reminderTime.dueDate
+            subtasksCreated: subtaskIds.length,
+            subtaskIds,
         },
     };
 }
 
 /**
- * Workflow 2: Task Decomposition
- *  * Future enhancement: Use Workers AI to break down complex tasks into subtasks
-     * For now, this is a placeholder implementation
+ * WORKFLOW 3: Scheduled Action
+ *
+ * Steps:
+ * 1. Load the scheduled action; stop if it already ran
+ * 2. Sleep until its run time
+ * 3. Ask the user's PersonalAssistant to run it. The agent re-validates the parameters against
+ *    the tool, executes it with a ToolContext, records the outcome as a system message and
+ *    pushes it to open sessions. It runs each action at most once, so retries are safe.
  */
-private async handleDecomposeWorkflow(
+private async handleScheduleWorkflow(
     params: TaskWorkflowParams,
     step: WorkflowStep
 ): Promise<ReminderResult> {
 
-    const decomposed = await step.do(
-        'decompose-task',
+    const actionId = params.actionId;
+    if (!actionId) {
+        return {
+            success: false,
+            message: 'No scheduled action to run',
+            error: 'INVALID_PARAMS',
+        };
+    }
+
+    const action = await step.do(
+        'load-action',
         {
             retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
             timeout: '2 minutes'
         },
         async () => {
-            console.log(`[TaskWorkflow] Decomposing task ${params.taskId}`);
+            console.log(`[TaskWorkflow] Loading scheduled action ${actionId}`);
 
-            // TODO Phase 3: Use Workers AI to analyze task and create subtasks
-            // For now, just log the action
-            return {
-              subtasksCreated: 0,
-              message: 'Task decomposition not yet implemented (Phase 3)',
+            const row = await this.env.DB.prepare(
+                'SELECT tool_name, run_at, status FROM scheduled_actions WHERE id = ? AND user_id = ?'
+            ).bind(actionId, params.userId).first<Pick<ScheduledActionRow, 'tool_name' | 'run_at' | 'status'>>();
+
+            if (!row) {
+                throw new Error('Scheduled action not found');
+            }
+
+            return { toolName: row.tool_name, runAt: row.run_at, status: row.status };
+        }
+    );
+
+    if (action.status !== 'pending') {
+        console.log(`[TaskWorkflow] Scheduled action ${actionId} is already ${action.status}, skipping`);
+        return {
+            success: true,
+            message: `Scheduled action already ${action.status}`,
+            data: { actionId, status: action.status },
+        };
+    }
+
+    await step.sleepUntil('wait-until-run-at', action.runAt * 1000);
+
+    const outcome = await step.do(
+        'run-action',
+        {
+            retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+            timeout: '5 minutes'
+        },
+        async () => {
+            console.log(`[TaskWorkflow] Running scheduled ${action.toolName} (${actionId})`);
+
+            const request: RunScheduledActionRequest = {
+                userId: params.userId,
+                actionId,
             };
+
+            const agent = this.env.AGENT.get(this.env.AGENT.idFromName(params.userId));
+            const response = await agent.fetch('https://agent/scheduled-action', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Agent could not run scheduled action: ${response.status} ${await response.text()}`);
+            }
+
+            return await response.json() as { status: ScheduledActionStatus; success: boolean; error?: string };
         }
     );
 
     return {
-        success: true,
-        message: decomposed.message,
-        data: decomposed,
+        success: outcome.success,
+        message: outcome.success
+            ? `Scheduled ${action.toolName} ran`
+            : `Scheduled ${action.toolName} failed: ${outcome.error || 'Unknown error'}`,
+        error: outcome.error,
+        data: { actionId, toolName: action.toolName, status: outcome.status },
     };
 }
 
 /**
- * WORKFLOW 3: Scheduled Task Execution
- * 
- * Future enhancement: Execute tasks at specific times
+ * Workflow 4: Cleanup Old Data
+ *
+ * Started for each active user by the daily cron trigger. Steps:
+ * 1. Load the user's retention settings
+ * 2. Delete completed tasks older than the task retention (subtasks go with them)
+ * 3. Delete conversation messages older than the conversation retention, in batches,
+ *    removing their Vectorize embeddings before the rows
  */
-private async handleScheduleWorkflow(
+private async handleCleanupWorkflow(
     params: TaskWorkflowParams,
     step: WorkflowStep
 ): Promise<ReminderResult> {
 
-    const scheduled = await step.do(
-        'schedule-task',
+    const retention = await step.do(
+        'load-retention-settings',
         {
             retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
             timeout: '2 minutes'
         },
         async () => {
-            console.log(`[TaskWorkflow] Scheduling task ${params.taskId}`);
+            const user = await this.env.DB.prepare(
+                'SELECT preferences FROM users WHERE id = ?'
+            ).bind(params.userId).first();
 
-            // TODO: Implement scheduled task execution
-            return {
-                scheduled: true,
-                message: 'Scheduled execution not yet implemented',
-            };
+            return parseRetentionSettings(user?.preferences as string | null);
+        }
+    );
+
+    const deletedCount = await step.do(
+        'cleanup-old-tasks',
+        {
+            retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+            timeout: '2 minutes'
+        },
+        async () => {
+            if (retention.completedTaskDays === null) {
+                return 0;
+            }
+
+            console.log(`[TaskWorkflow] Cleaning up tasks completed over ${retention.completedTaskDays} days ago for user ${params.userId}`);
+
+            const cutoff = Math.floor(Date.now() / 1000) - (retention.completedTaskDays * 24 * 60 * 60);
+
+            // Deleting a parent cascades to its subtasks, so keep it while any of them are still open
+            const result = await this.env.DB.prepare(
+                `DELETE FROM tasks WHERE user_id = ? AND completed = 1 AND completed_at < ?
+                 AND NOT EXISTS (SELECT 1 FROM tasks s WHERE s.parent_task_id = tasks.id AND s.completed = 0)`
+            ).bind(params.userId, cutoff).run()
+
+            return result.meta.changes || 0;
         }
     );
 
+    let prunedMessages = 0;
+
+    if (retention.conversationDays !== null) {
+        const cutoff = Math.floor(Date.now() / 1000) - (retention.conversationDays * 24 * 60 * 60);
+
+        for (let batch = 0; batch < MAX_PRUNE_BATCHES; batch++) {
+            const pruned = await step.do(
+                `prune-conversations-${batch}`,
+                {
+                    retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+                    timeout: '2 minutes'
+                },
+                async () => {
+                    const result = await this.env.DB.prepare(
+                        'SELECT id FROM conversations WHERE user_id = ? AND timestamp < ? LIMIT ?'
+                    ).bind(params.userId, cutoff, PRUNE_BATCH_SIZE).all<{ id: string }>();
+
+                    const messageIds = (result.results || []).map(row => row.id);
+                    if (messageIds.length === 0) {
+                        return 0;
+                    }
+
+                    // Embeddings first: a failure here retries the step with the rows still in place.
+                    // Vectorize is not available in local dev
+                    if (this.env.VECTORIZE) {
+                        await this.env.VECTORIZE.deleteByIds(messageIds);
+                    } else {
+                        console.log('[TaskWorkflow] VECTORIZE binding not available - skipping embedding cleanup');
+                    }
+
+                    await this.env.DB.prepare(
+                        `DELETE FROM conversations WHERE user_id = ? AND id IN (${messageIds.map(() => '?').join(', ')})`
+                    ).bind(params.userId, ...messageIds).run();
+
+                    return messageIds.length;
+                }
+            );
+
+            prunedMessages += pruned;
+            if (pruned < PRUNE_BATCH_SIZE) {
+                break; // Anything left over is picked up by the next run
+            }
+        }
+    }
+
     return {
-    success: true,
-    message: scheduled.message,
-    data: scheduled,
+        success: true,
+        message: `Cleaned up ${deletedCount} old completed tasks and ${prunedMessages} old messages`,
+        data: { deletedCount, prunedMessages, retention },
     };
 }
 
 /**
- * Workflow 4: Cleanup Old Completed Tasks
+ * Workflow 5: Daily Briefing
+ *
+ * Started by the hourly cron trigger for users whose briefing time falls in the coming hour.
+ * Steps:
+ * 1. Sleep until the briefing time and check the user still wants it
+ * 2. Gather overdue and due-today tasks (by the user's time zone)
+ * 3. Fetch the weather for the user's home city through the agent's getWeather tool, if set
+ * 4. Have Workers AI write the briefing
+ * 5. Hand it to the user's PersonalAssistant, which stores it and pushes it to open sessions
+ * 6. Email it through the agent's sendEmail tool, if the user gave an address
  */
-private async handleCleanupWorkflow(
+private async handleBriefingWorkflow(
     params: TaskWorkflowParams,
     step: WorkflowStep
 ): Promise<ReminderResult> {
 
-    const deletedCount = await step.do(
-        'cleanup-old-tasks',
+    const runAt = params.runAt;
+    if (!runAt) {
+        return {
+            success: false,
+            message: 'No briefing time given',
+            error: 'INVALID_PARAMS',
+        };
+    }
+
+    await step.sleepUntil('wait-for-briefing-time', runAt * 1000);
+
+    const user = await step.do(
+        'load-briefing-settings',
         {
             retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
             timeout: '2 minutes'
         },
         async () => {
-            console.log(`[TaskWorkflow] Cleaning up old completed tasks for user ${params.userId}`);
+            const row = await this.env.DB.prepare(
+                'SELECT timezone, preferences FROM users WHERE id = ?'
+            ).bind(params.userId).first();
+
+            const timeZone = (row?.timezone as string | null) || 'UTC';
+            return {
+                settings: parseBriefingSettings(row?.preferences as string | null),
+                timeZone,
+                date: localDate(runAt, timeZone),
+            };
+        }
+    );
 
-            const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
+    if (!user.settings.enabled) {
+        console.log(`[TaskWorkflow] Briefing turned off for user ${params.userId}, skipping`);
+        return {
+            success: true,
+            message: 'Briefing turned off',
+        };
+    }
 
+    const tasks = await step.do(
+        'gather-tasks',
+        {
+            retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+            timeout: '2 minutes'
+        },
+        async () => {
             const result = await this.env.DB.prepare(
-                'DELETE FROM tasks WHERE user_id = ? AND completed = 1 AND completed_at < ?'
-            ).bind(params.userId, thirtyDaysAgo).run()
+                'SELECT * FROM tasks WHERE user_id = ? AND completed = 0 AND due_date IS NOT NULL AND due_date < ? ORDER BY due_date ASC LIMIT ?'
+            ).bind(params.userId, endOfLocalDay(runAt, user.timeZone), MAX_BRIEFING_TASKS).all();
+
+            return (result.results || []).map(toTask).map(task => ({
+                title: task.title,
+                priority: task.priority,
+                dueDate: task.dueDate!,
+                overdue: task.dueDate! < runAt,
+            }));
+        }
+    );
 
-            return result.meta.changes || 0;
+    const weather = user.settings.homeCity
+        ? await step.do(
+            'get-weather',
+            {
+                retries: { limit: 3, delay: '10 seconds', backoff: 'exponential' },
+                timeout: '2 minutes'
+            },
+            async () => {
+                const result = await this.callBriefingTool({
+                    userId: params.userId,
+                    tool: 'getWeather',
+                    params: { city: user.settings.homeCity!, countryCode: user.settings.countryCode ?? undefined },
+                });
+
+                // The briefing goes out without the weather rather than not at all
+                if (!result.success) {
+                    console.warn(`[TaskWorkflow] Briefing weather unavailable: ${result.error}`);
+                    return null;
+                }
+                return result.output as WeatherData;
+            }
+        )
+        : null;
+
+    const content = await step.do(
+        'compose-briefing',
+        {
+            retries: { limit: 3, delay: '10 seconds', backoff: 'exponential' },
+            timeout: '2 minutes'
+        },
+        async () => {
+            const formatTime = (timestamp: number) => new Date(timestamp * 1000).toLocaleString('en-US', {
+                timeZone: user.timeZone,
+                dateStyle: 'medium',
+                timeStyle: 'short',
+            });
+
+            const facts = [
+                `Date: ${user.date}`,
+                tasks.length > 0
+                    ? `Tasks:\n${tasks.map(task => `- ${task.title} (${task.priority} priority, ${task.overdue ? 'overdue since' : 'due'} ${formatTime(task.dueDate)})`).join('\n')}`
+                    : 'Tasks: none overdue or due today',
+                weather ? `Weather in ${weather.city}: ${weather.description}, ${weather.temperature}°C (feels like ${weather.feelsLike}°C)` : null,
+            ].filter(Boolean).join('\n\n');
+
+            const model = (this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast') as unknown as keyof AiModels;
+            const response = await this.env.AI.run(model, {
+                messages: [
+                    { role: 'system', content: BRIEFING_SYSTEM_PROMPT },
+                    { role: 'user', content: facts },
+                ],
+                max_tokens: 300,
+                temperature: 0.5,
+            }) as { response?: string };
+
+            const text = response?.response?.trim();
+            if (!text) {
+                throw new Error('Briefing generation returned no text');
+            }
+            return text;
         }
     );
 
+    const delivery = await step.do(
+        'deliver-briefing',
+        {
+            retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+            timeout: '2 minutes'
+        },
+        async () => {
+            const request: DeliverBriefingRequest = {
+                userId: params.userId,
+                briefingId: `briefing-${params.userId}-${user.date}`,
+                date: user.date,
+                content,
+            };
+
+            const agent = this.env.AGENT.get(this.env.AGENT.idFromName(params.userId));
+            const response = await agent.fetch('https://agent/briefing', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Agent rejected briefing: ${response.status} ${await response.text()}`);
+            }
+
+            return await response.json() as { delivered: boolean; duplicate: boolean };
+        }
+    );
+
+    if (delivery.duplicate) {
+        console.log(`[TaskWorkflow] Briefing for ${user.date} was already sent, skipping`);
+        return {
+            success: true,
+            message: `Briefing for ${user.date} already sent`,
+        };
+    }
+
+    const emailed = user.settings.email
+        ? await step.do(
+            'email-briefing',
+            {
+                // A retry after a send that did go through would email twice
+                retries: { limit: 1, delay: '30 seconds', backoff: 'constant' },
+                timeout: '2 minutes'
+            },
+            async () => {
+                const result = await this.callBriefingTool({
+                    userId: params.userId,
+                    tool: 'sendEmail',
+                    params: { to: user.settings.email!, subject: `Your briefing for ${user.date}`, textBody: content },
+                });
+
+                if (!result.success) {
+                    console.warn(`[TaskWorkflow] Briefing email not sent: ${result.error}`);
+                }
+                return result.success;
+            }
+        )
+        : false;
+
     return {
         success: true,
-        message: `Cleaned up ${deletedCount} old completed tasks`,
-        data: { deletedCount },
+        message: `Sent briefing for ${user.date}`,
+        data: {
+            date: user.date,
+            tasks: tasks.length,
+            weather: weather !== null,
+            delivered: delivery.delivered, // Otherwise it waits in the conversation history
+            emailed,
+        },
     };
 }
 
+    // Run a tool through the user's agent, which owns the ToolContext and rate limits
+    private async callBriefingTool(request: BriefingToolRequest): Promise<{ success: boolean; output?: unknown; error?: string }> {
+        const agent = this.env.AGENT.get(this.env.AGENT.idFromName(request.userId));
+        const response = await agent.fetch('https://agent/briefing/tool', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(request),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Agent could not run ${request.tool}: ${response.status} ${await response.text()}`);
+        }
+
+        return await response.json() as { success: boolean; output?: unknown; error?: string };
+    }
+
 }
\ No newline at end of file